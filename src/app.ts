@@ -5,6 +5,7 @@ import { errorHandler } from './utils/errors';
 import logger from './utils/logger';
 import path from 'path';
 import { setupSwagger } from './config/swagger';
+import { getJwks } from './config/jwtKeys';
 
 // Load environment variables
 dotenv.config();
@@ -15,6 +16,7 @@ import usersRoutes from './modules/users/users.routes';
 import chatsRoutes from './modules/chats/chats.routes';
 import messagesRoutes from './modules/messages/messages.routes';
 import uploadRoutes from './modules/messages/upload.routes';
+import adminRoutes from './modules/admin/admin.routes';
 
 const app: Express = express();
 
@@ -47,12 +49,19 @@ app.get('/health', (_req, res) => {
   });
 });
 
+// Public keys for verifying access tokens
+app.get('/.well-known/jwks.json', (_req, res) => {
+  res.setHeader('Cache-Control', 'public, max-age=300');
+  res.json(getJwks());
+});
+
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/chats', chatsRoutes);
 app.use('/api/messages', messagesRoutes);
 app.use('/api/files', uploadRoutes);
+app.use('/api/admin', adminRoutes);
 
 // 404 handler
 app.use((_req, res) => {
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import crypto, { KeyObject } from 'crypto';
+import logger from '../utils/logger';
+
+// Keyring for signing access tokens with RS256/ES256.
+//
+// Keys are PEM private keys, either every *.pem file in JWT_KEYS_DIR (the file
+// name is the key ID) or a single key in JWT_PRIVATE_KEY + JWT_KEY_ID.
+// JWT_ACTIVE_KEY_ID selects the key that signs new tokens; the others are
+// kept for verification only, so keys can be rotated without logging anyone out.
+
+export type JwtAlgorithm = 'RS256' | 'ES256' | 'ES384' | 'ES512';
+
+export interface JwtKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+}
+
+const EC_CURVE_ALGORITHMS: Record<string, JwtAlgorithm> = {
+  prime256v1: 'ES256',
+  secp384r1: 'ES384',
+  secp521r1: 'ES512',
+};
+
+const detectAlgorithm = (key: KeyObject): JwtAlgorithm => {
+  if (key.asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+
+  const curve = key.asymmetricKeyDetails?.namedCurve;
+  if (key.asymmetricKeyType === 'ec' && curve && EC_CURVE_ALGORITHMS[curve]) {
+    return EC_CURVE_ALGORITHMS[curve];
+  }
+
+  throw new Error(`Unsupported JWT key type: ${key.asymmetricKeyType}`);
+};
+
+const loadKey = (kid: string, pem: string): JwtKey => {
+  const privateKey = crypto.createPrivateKey(pem);
+  return {
+    kid,
+    algorithm: detectAlgorithm(privateKey),
+    privateKey,
+    publicKey: crypto.createPublicKey(privateKey),
+  };
+};
+
+const loadKeys = (): JwtKey[] => {
+  const keys: JwtKey[] = [];
+  const keysDir = process.env.JWT_KEYS_DIR;
+
+  if (keysDir) {
+    for (const file of fs.readdirSync(keysDir).sort()) {
+      if (file.endsWith('.pem')) {
+        const pem = fs.readFileSync(path.join(keysDir, file), 'utf8');
+        keys.push(loadKey(path.basename(file, '.pem'), pem));
+      }
+    }
+  }
+
+  if (process.env.JWT_PRIVATE_KEY) {
+    // Allow the PEM to be passed on one line with escaped newlines
+    const pem = process.env.JWT_PRIVATE_KEY.replace(/\\n/g, '\n');
+    keys.push(loadKey(process.env.JWT_KEY_ID || 'default', pem));
+  }
+
+  return keys;
+};
+
+let keyring: JwtKey[] | null = null;
+
+const getKeyring = (): JwtKey[] => {
+  if (!keyring) {
+    keyring = loadKeys();
+    if (keyring.length > 0) {
+      logger.info(`🔑 Loaded ${keyring.length} JWT signing key(s): ${keyring.map((k) => k.kid).join(', ')}`);
+    }
+  }
+  return keyring;
+};
+
+export const hasAsymmetricKeys = (): boolean => getKeyring().length > 0;
+
+// The key used to sign new tokens, or null when falling back to HS256
+export const getSigningKey = (): JwtKey | null => {
+  const keys = getKeyring();
+  if (keys.length === 0) {
+    return null;
+  }
+
+  const activeKid = process.env.JWT_ACTIVE_KEY_ID;
+  if (activeKid) {
+    const activeKey = keys.find((key) => key.kid === activeKid);
+    if (!activeKey) {
+      throw new Error(`JWT_ACTIVE_KEY_ID "${activeKid}" does not match any loaded key`);
+    }
+    return activeKey;
+  }
+
+  // Without an explicit choice, the last key (by file name) signs
+  return keys[keys.length - 1];
+};
+
+export const getVerificationKey = (kid: string): JwtKey | undefined => {
+  return getKeyring().find((key) => key.kid === kid);
+};
+
+// Public keys in JWK Set format, for /.well-known/jwks.json
+export const getJwks = () => ({
+  keys: getKeyring().map((key) => ({
+    ...key.publicKey.export({ format: 'jwk' }),
+    kid: key.kid,
+    alg: key.algorithm,
+    use: 'sig',
+  })),
+});
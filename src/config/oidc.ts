@@ -0,0 +1,56 @@
+import logger from '../utils/logger';
+
+// OpenID Connect providers, configured as a JSON array in OIDC_PROVIDERS:
+//
+// [{ "id": "google", "name": "Google", "issuer": "https://accounts.google.com",
+//    "clientId": "...", "clientSecret": "...",
+//    "redirectUris": ["https://app.example.com/auth/callback"] }]
+//
+// Any standards compliant issuer works, including a local mock issuer for development.
+
+export interface OidcProviderConfig {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  redirectUris: string[];
+}
+
+let providers: OidcProviderConfig[] | null = null;
+
+const loadProviders = (): OidcProviderConfig[] => {
+  if (!process.env.OIDC_PROVIDERS) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(process.env.OIDC_PROVIDERS) as Partial<OidcProviderConfig>[];
+    return parsed
+      .filter((provider) => provider.id && provider.issuer && provider.clientId)
+      .map((provider) => ({
+        id: provider.id!,
+        name: provider.name || provider.id!,
+        issuer: provider.issuer!.replace(/\/+$/, ''),
+        clientId: provider.clientId!,
+        clientSecret: provider.clientSecret,
+        scopes: provider.scopes || 'openid email profile',
+        redirectUris: provider.redirectUris || [],
+      }));
+  } catch (error) {
+    logger.error('Invalid OIDC_PROVIDERS configuration, OIDC login disabled:', error);
+    return [];
+  }
+};
+
+export const getOidcProviders = (): OidcProviderConfig[] => {
+  if (!providers) {
+    providers = loadProviders();
+  }
+  return providers;
+};
+
+export const getOidcProvider = (id: string): OidcProviderConfig | undefined => {
+  return getOidcProviders().find((provider) => provider.id === id);
+};
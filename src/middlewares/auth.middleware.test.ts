@@ -0,0 +1,101 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { authMiddleware, requireScope, requireUserLogin } from './auth.middleware';
+import ApiKey from '../modules/auth/apiKey.model';
+import User from '../modules/users/user.model';
+import { generateApiKey } from '../modules/auth/apiKey.service';
+import { generateToken } from '../utils/jwt';
+import { AppError } from '../utils/errors';
+import { AccountStatus, ApiScope, AuthMethod, AuthRequest } from '../types';
+
+const user = new User({
+  _id: new mongoose.Types.ObjectId(),
+  username: 'alice',
+  email: 'alice@example.com',
+  password: 'hashed',
+  accountStatus: AccountStatus.ACTIVE,
+});
+
+const makeRequest = (headers: Record<string, string>) => ({ headers }) as unknown as AuthRequest;
+
+// Run a middleware and return what it passed to next()
+const run = async (
+  middleware: (req: AuthRequest, res: Response, next: (error?: unknown) => void) => unknown,
+  req: AuthRequest
+): Promise<unknown> => {
+  let result: unknown = 'not called';
+  await middleware(req, {} as Response, (error?: unknown) => {
+    result = error;
+  });
+  return result;
+};
+
+const storeApiKey = (scopes: ApiScope[], overrides: Record<string, unknown> = {}) => {
+  const { key, keyHash } = generateApiKey();
+  jest.spyOn(ApiKey, 'findOne').mockImplementation(((filter: { keyHash: string }) =>
+    Promise.resolve(
+      filter.keyHash === keyHash
+        ? { _id: new mongoose.Types.ObjectId(), userId: user._id, scopes, lastUsedAt: new Date(), ...overrides }
+        : null
+    )) as never);
+  return key;
+};
+
+describe('API key scopes', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(User, 'findById').mockResolvedValue(user);
+    jest.spyOn(ApiKey, 'updateOne').mockResolvedValue({} as never);
+  });
+
+  it('grants an API key only its own scopes', async () => {
+    const key = storeApiKey([ApiScope.CHATS_READ]);
+    const req = makeRequest({ 'x-api-key': key });
+
+    expect(await run(authMiddleware, req)).toBeUndefined();
+    expect(req.user).toMatchObject({ id: user._id.toString(), authMethod: AuthMethod.API_KEY, scopes: [ApiScope.CHATS_READ] });
+
+    expect(await run(requireScope(ApiScope.CHATS_READ), req)).toBeUndefined();
+    const denied = await run(requireScope(ApiScope.CHATS_READ, ApiScope.MESSAGES_WRITE), req);
+    expect(denied).toBeInstanceOf(AppError);
+    expect(denied).toMatchObject({ statusCode: 403, message: expect.stringContaining(ApiScope.MESSAGES_WRITE) });
+  });
+
+  it('accepts API keys as bearer tokens', async () => {
+    const key = storeApiKey([ApiScope.USERS_READ]);
+    const req = makeRequest({ authorization: `Bearer ${key}` });
+
+    expect(await run(authMiddleware, req)).toBeUndefined();
+    expect(req.user?.authMethod).toBe(AuthMethod.API_KEY);
+  });
+
+  it('keeps API keys away from account management', async () => {
+    const key = storeApiKey(Object.values(ApiScope));
+    const req = makeRequest({ 'x-api-key': key });
+    await run(authMiddleware, req);
+
+    expect(await run(requireUserLogin, req)).toMatchObject({ statusCode: 403 });
+  });
+
+  it('rejects unknown, expired and suspended-owner keys', async () => {
+    storeApiKey([ApiScope.CHATS_READ]);
+    expect(await run(authMiddleware, makeRequest({ 'x-api-key': generateApiKey().key }))).toMatchObject({ statusCode: 401 });
+
+    const expired = storeApiKey([ApiScope.CHATS_READ], { expiresAt: new Date(Date.now() - 1000) });
+    expect(await run(authMiddleware, makeRequest({ 'x-api-key': expired }))).toMatchObject({ statusCode: 401 });
+
+    const key = storeApiKey([ApiScope.CHATS_READ]);
+    jest.spyOn(User, 'findById').mockResolvedValue(new User({ ...user.toObject(), accountStatus: AccountStatus.BANNED }));
+    expect(await run(authMiddleware, makeRequest({ 'x-api-key': key }))).toMatchObject({ statusCode: 401 });
+  });
+
+  it('gives logged-in users every scope', async () => {
+    const token = generateToken({ id: user._id.toString(), email: user.email, username: user.username });
+    const req = makeRequest({ authorization: `Bearer ${token}` });
+
+    expect(await run(authMiddleware, req)).toBeUndefined();
+    expect(req.user?.authMethod).toBe(AuthMethod.JWT);
+    expect(await run(requireScope(...Object.values(ApiScope)), req)).toBeUndefined();
+    expect(await run(requireUserLogin, req)).toBeUndefined();
+  });
+});
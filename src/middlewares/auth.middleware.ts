@@ -1,27 +1,67 @@
 import { Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt';
-import { AuthRequest } from '../types';
+import { AuthRequest, AuthMethod, ApiScope, UserRole } from '../types';
 import { AppError } from '../utils/errors';
+import { isSessionActive } from '../modules/auth/session.service';
+import { isApiKey, verifyApiKey } from '../modules/auth/apiKey.service';
+import User from '../modules/users/user.model';
 
-export const authMiddleware = (
+const authenticateApiKey = async (req: AuthRequest, key: string): Promise<void> => {
+  const result = await verifyApiKey(key);
+
+  if (!result) {
+    throw new AppError('Invalid or expired API key', 401);
+  }
+
+  req.user = {
+    id: result.user._id.toString(),
+    email: result.user.email,
+    username: result.user.username,
+    authMethod: AuthMethod.API_KEY,
+    scopes: result.scopes,
+  };
+};
+
+// Accepts either a Bearer JWT or an API key (as a Bearer token or in the X-API-Key header)
+export const authMiddleware = async (
   req: AuthRequest,
   _res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
     const authHeader = req.headers.authorization;
+    const apiKeyHeader = req.headers['x-api-key'];
+
+    if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+      await authenticateApiKey(req, apiKeyHeader);
+      return next();
+    }
 
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       throw new AppError('No token provided', 401);
     }
 
     const token = authHeader.substring(7);
+
+    if (isApiKey(token)) {
+      await authenticateApiKey(req, token);
+      return next();
+    }
+
     const decoded = verifyToken(token);
 
+    // Access tokens stop working as soon as their session is revoked
+    if (decoded.sid && !(await isSessionActive(decoded.sid))) {
+      throw new AppError('Session has been revoked', 401);
+    }
+
     req.user = {
       id: decoded.id,
       email: decoded.email,
       username: decoded.username,
+      sessionId: decoded.sid,
+      authMethod: AuthMethod.JWT,
+      scopes: Object.values(ApiScope),
     };
 
     next();
@@ -34,3 +74,45 @@ export const authMiddleware = (
   }
 };
 
+// Require every listed scope. Must run after authMiddleware.
+export const requireScope = (...scopes: ApiScope[]) => {
+  return (req: AuthRequest, _res: Response, next: NextFunction): void => {
+    const granted = req.user?.scopes || [];
+    const missing = scopes.filter((scope) => !granted.includes(scope));
+
+    if (missing.length > 0) {
+      return next(new AppError(`API key is missing required scope: ${missing.join(', ')}`, 403));
+    }
+
+    next();
+  };
+};
+
+// Account and security management is only available to users who logged in, never to API keys
+export const requireUserLogin = (req: AuthRequest, _res: Response, next: NextFunction): void => {
+  if (req.user?.authMethod !== AuthMethod.JWT) {
+    return next(new AppError('This action requires logging in with your account', 403));
+  }
+
+  next();
+};
+
+// Require one of the listed system roles. The role is read from the database on every
+// request so promotions and demotions apply immediately. Must run after authMiddleware.
+export const requireRole = (...roles: UserRole[]) => {
+  return async (req: AuthRequest, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const user = await User.findById(req.user?.id).select('role');
+      const role = user?.role || UserRole.USER;
+
+      if (!roles.includes(role)) {
+        throw new AppError('You do not have permission to perform this action', 403);
+      }
+
+      req.user!.role = role;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
@@ -3,7 +3,23 @@ import helmet from 'helmet';
 import cors from 'cors';
 // import rateLimit from 'express-rate-limit'; // Disabled - no rate limiting
 
+// Helper function to read TRUST_PROXY: "true", a number of proxy hops, or the addresses or
+// subnets of the proxies (e.g. "loopback, 10.0.0.0/8"). Unset trusts no proxy.
+const parseTrustProxy = (value?: string): boolean | number | string => {
+  if (!value || value === 'false') {
+    return false;
+  }
+  if (value === 'true') {
+    return true;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+};
+
 export const setupSecurity = (app: Express): void => {
+  // Behind a reverse proxy, take the client IP from X-Forwarded-For so that per-IP login
+  // lockouts and session details see the real client rather than the proxy
+  app.set('trust proxy', parseTrustProxy(process.env.TRUST_PROXY));
+
   // Helmet for security headers
   app.use(helmet());
 
@@ -16,7 +32,7 @@ export const setupSecurity = (app: Express): void => {
     credentials: true,
     optionsSuccessStatus: 200,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-API-Key'],
   };
   app.use(cors(corsOptions));
 
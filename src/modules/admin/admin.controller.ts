@@ -0,0 +1,329 @@
+import { Response, NextFunction } from 'express';
+import mongoose, { FilterQuery } from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import User, { IUser } from '../users/user.model';
+import Chat from '../chats/chat.model';
+import Message from '../messages/message.model';
+import { revokeUserSessions } from '../auth/session.service';
+import { disconnectUserSockets } from '../../sockets/socket.handler';
+import { AuthRequest, AccountStatus, PresenceState, UserRole } from '../../types';
+import { AppError } from '../../utils/errors';
+import { escapeRegex } from '../../utils/regex';
+import logger from '../../utils/logger';
+
+const MAX_PAGE_SIZE = 100;
+
+// Helper function to shape a user for admin responses
+const toAdminUser = (user: IUser) => ({
+  id: user._id,
+  username: user.username,
+  email: user.email,
+  emailVerified: user.emailVerified !== false,
+  phoneNumber: user.phoneNumber,
+  phoneVerified: user.phoneVerified,
+  role: user.role,
+  accountStatus: user.accountStatus,
+  suspendedUntil: user.suspendedUntil,
+  moderationReason: user.moderationReason,
+  twoFactorEnabled: user.twoFactorEnabled,
+  isOnline: user.isOnline,
+  lastSeen: user.lastSeen,
+  createdAt: user.createdAt,
+});
+
+// Helper function to load the user being moderated. Nobody can moderate themselves,
+// and moderators can only act on regular users.
+const findModerationTarget = async (req: AuthRequest): Promise<IUser> => {
+  const { id } = req.params;
+
+  if (!mongoose.isValidObjectId(id)) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (id === req.user?.id) {
+    throw new AppError('You cannot perform this action on your own account', 400);
+  }
+
+  const user = await User.findById(id);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (user.accountStatus === AccountStatus.DELETED) {
+    throw new AppError('This account has been deleted', 409);
+  }
+
+  if (req.user?.role !== UserRole.ADMIN && user.role !== UserRole.USER) {
+    throw new AppError('Only admins can moderate staff accounts', 403);
+  }
+
+  return user;
+};
+
+// Helper function to end every session of a user and drop their live sockets
+const signOutEverywhere = async (req: AuthRequest, user: IUser, reason: string): Promise<number> => {
+  const userId = user._id.toString();
+  const revokedIds = await revokeUserSessions(userId, reason);
+
+  const io = req.app.get('io') as SocketIOServer | undefined;
+  if (io) {
+    disconnectUserSockets(io, userId);
+  }
+
+  await User.findByIdAndUpdate(userId, { isOnline: false, presence: PresenceState.OFFLINE, lastSeen: new Date() });
+
+  return revokedIds.length;
+};
+
+export const listUsers = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { q, role, status } = req.query;
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+    const skip = (page - 1) * limit;
+
+    const filter: FilterQuery<IUser> = {};
+    if (typeof q === 'string' && q.trim()) {
+      const pattern = escapeRegex(q.trim());
+      filter.$or = [
+        { username: { $regex: pattern, $options: 'i' } },
+        { email: { $regex: pattern, $options: 'i' } },
+        { phoneNumber: { $regex: pattern, $options: 'i' } },
+      ];
+      if (mongoose.isValidObjectId(q.trim())) {
+        filter.$or.push({ _id: q.trim() });
+      }
+    }
+    if (role) filter.role = role;
+    if (status) filter.accountStatus = status;
+
+    const [users, total] = await Promise.all([
+      User.find(filter).sort({ createdAt: -1 }).skip(skip).limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        users: users.map(toAdminUser),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getUser = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.isValidObjectId(id)) {
+      throw new AppError('User not found', 404);
+    }
+
+    const user = await User.findById(id);
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        user: toAdminUser(user),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateUserRole = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await findModerationTarget(req);
+
+    user.role = req.body.role;
+    await user.save();
+
+    logger.info(`User ${user._id} role set to ${user.role} by ${req.user?.id}`);
+
+    res.json({
+      success: true,
+      message: 'Role updated successfully',
+      data: {
+        user: toAdminUser(user),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const suspendUser = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { reason, until } = req.body;
+    const user = await findModerationTarget(req);
+
+    const suspendedUntil = until ? new Date(until) : undefined;
+    if (suspendedUntil && suspendedUntil <= new Date()) {
+      throw new AppError('Suspension end date must be in the future', 400);
+    }
+
+    if (user.accountStatus === AccountStatus.BANNED) {
+      throw new AppError('User is banned', 409);
+    }
+
+    user.accountStatus = AccountStatus.SUSPENDED;
+    user.suspendedUntil = suspendedUntil;
+    user.moderationReason = reason;
+    await user.save();
+
+    const revokedSessions = await signOutEverywhere(req, user, 'account_suspended');
+
+    logger.info(`User ${user._id} suspended by ${req.user?.id}: ${reason}`);
+
+    res.json({
+      success: true,
+      message: 'User suspended successfully',
+      data: {
+        user: toAdminUser(user),
+        revokedSessions,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const banUser = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { reason } = req.body;
+    const user = await findModerationTarget(req);
+
+    user.accountStatus = AccountStatus.BANNED;
+    user.suspendedUntil = undefined;
+    user.moderationReason = reason;
+    await user.save();
+
+    const revokedSessions = await signOutEverywhere(req, user, 'account_banned');
+
+    logger.info(`User ${user._id} banned by ${req.user?.id}: ${reason}`);
+
+    res.json({
+      success: true,
+      message: 'User banned successfully',
+      data: {
+        user: toAdminUser(user),
+        revokedSessions,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reinstateUser = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await findModerationTarget(req);
+
+    if (user.accountStatus === AccountStatus.ACTIVE) {
+      throw new AppError('User is not suspended or banned', 409);
+    }
+
+    user.accountStatus = AccountStatus.ACTIVE;
+    user.suspendedUntil = undefined;
+    user.moderationReason = undefined;
+    await user.save();
+
+    logger.info(`User ${user._id} reinstated by ${req.user?.id}`);
+
+    res.json({
+      success: true,
+      message: 'User reinstated successfully',
+      data: {
+        user: toAdminUser(user),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const forceLogout = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await findModerationTarget(req);
+    const revokedSessions = await signOutEverywhere(req, user, 'revoked_by_admin');
+
+    logger.info(`User ${user._id} signed out of all sessions by ${req.user?.id}`);
+
+    res.json({
+      success: true,
+      message: 'User logged out of all sessions',
+      data: {
+        revokedSessions,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getStats = async (_req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
+    const [
+      totalUsers,
+      onlineUsers,
+      newUsersToday,
+      newUsersThisWeek,
+      suspendedUsers,
+      bannedUsers,
+      totalChats,
+      groupChats,
+      totalMessages,
+      messagesToday,
+    ] = await Promise.all([
+      User.countDocuments(),
+      User.countDocuments({ isOnline: true }),
+      User.countDocuments({ createdAt: { $gte: dayAgo } }),
+      User.countDocuments({ createdAt: { $gte: weekAgo } }),
+      User.countDocuments({ accountStatus: AccountStatus.SUSPENDED }),
+      User.countDocuments({ accountStatus: AccountStatus.BANNED }),
+      Chat.countDocuments(),
+      Chat.countDocuments({ isGroup: true }),
+      Message.estimatedDocumentCount(),
+      Message.countDocuments({ createdAt: { $gte: dayAgo } }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        users: {
+          total: totalUsers,
+          online: onlineUsers,
+          newToday: newUsersToday,
+          newThisWeek: newUsersThisWeek,
+          suspended: suspendedUsers,
+          banned: bannedUsers,
+        },
+        chats: {
+          total: totalChats,
+          groups: groupChats,
+        },
+        messages: {
+          total: totalMessages,
+          today: messagesToday,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import * as adminController from './admin.controller';
+import { validate } from '../../middlewares/validation.middleware';
+import { authMiddleware, requireUserLogin, requireRole } from '../../middlewares/auth.middleware';
+import { UserRole } from '../../types';
+import * as adminValidation from './admin.validation';
+
+const router = Router();
+
+// Staff only, and never through API keys
+router.use(authMiddleware, requireUserLogin, requireRole(UserRole.MODERATOR, UserRole.ADMIN));
+
+router.get('/stats', adminController.getStats);
+router.get('/users', validate(adminValidation.listUsersSchema), adminController.listUsers);
+router.get('/users/:id', adminController.getUser);
+router.patch('/users/:id/role', requireRole(UserRole.ADMIN), validate(adminValidation.updateRoleSchema), adminController.updateUserRole);
+router.post('/users/:id/suspend', validate(adminValidation.suspendUserSchema), adminController.suspendUser);
+router.post('/users/:id/ban', validate(adminValidation.banUserSchema), adminController.banUser);
+router.post('/users/:id/reinstate', adminController.reinstateUser);
+router.post('/users/:id/logout', adminController.forceLogout);
+
+export default router;
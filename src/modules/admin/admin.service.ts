@@ -0,0 +1,34 @@
+import User from '../users/user.model';
+import { verifiedEmailFilter } from '../users/verification.policy';
+import { UserRole } from '../../types';
+import logger from '../../utils/logger';
+
+// Promote the accounts listed in ADMIN_EMAILS to admin on startup, so the first
+// admin can be created without touching the database by hand
+export const promoteBootstrapAdmins = async (): Promise<void> => {
+  const emails = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (emails.length === 0) {
+    return;
+  }
+
+  // Anyone can register an unverified account with a listed email, so only verified accounts count
+  const verifiedUsers = await User.find({ email: { $in: emails }, ...verifiedEmailFilter }).select('email');
+  const verifiedEmails = new Set(verifiedUsers.map((user) => user.email));
+  const skipped = emails.filter((email) => !verifiedEmails.has(email));
+  if (skipped.length > 0) {
+    logger.warn(`Not promoting ADMIN_EMAILS without a verified account: ${skipped.join(', ')}`);
+  }
+
+  const result = await User.updateMany(
+    { email: { $in: [...verifiedEmails] }, ...verifiedEmailFilter, role: { $ne: UserRole.ADMIN } },
+    { $set: { role: UserRole.ADMIN } }
+  );
+
+  if (result.modifiedCount > 0) {
+    logger.info(`Promoted ${result.modifiedCount} account(s) from ADMIN_EMAILS to admin`);
+  }
+};
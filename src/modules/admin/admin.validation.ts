@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { UserRole, AccountStatus } from '../../types';
+
+export const listUsersSchema = z.object({
+  query: z.object({
+    q: z.string().optional(),
+    role: z.nativeEnum(UserRole).optional(),
+    status: z.nativeEnum(AccountStatus).optional(),
+    page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+  }),
+});
+
+export const updateRoleSchema = z.object({
+  body: z.object({
+    role: z.nativeEnum(UserRole),
+  }),
+});
+
+export const suspendUserSchema = z.object({
+  body: z.object({
+    reason: z.string().min(1, 'Reason is required').max(500),
+    until: z.string().datetime({ offset: true }).optional(),
+  }),
+});
+
+export const banUserSchema = z.object({
+  body: z.object({
+    reason: z.string().min(1, 'Reason is required').max(500),
+  }),
+});
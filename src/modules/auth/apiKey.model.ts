@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ApiScope } from '../../types';
+
+export interface IApiKey extends Document {
+  userId: mongoose.Types.ObjectId;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: ApiScope[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const apiKeySchema = new Schema<IApiKey>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'API key name is required'],
+      trim: true,
+      maxlength: [50, 'API key name cannot exceed 50 characters'],
+    },
+    // First characters of the key, so users can recognise it in listings
+    prefix: {
+      type: String,
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+      unique: true,
+      select: false,
+    },
+    scopes: [
+      {
+        type: String,
+        enum: Object.values(ApiScope),
+      },
+    ],
+    expiresAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IApiKey>('ApiKey', apiKeySchema);
@@ -0,0 +1,42 @@
+import ApiKey from './apiKey.model';
+import User, { IUser } from '../users/user.model';
+import { isAccountActive } from '../users/account.policy';
+import { generateRandomToken, hashToken } from '../../utils/tokens';
+import { ApiScope } from '../../types';
+
+export const API_KEY_PREFIX = 'chert_';
+const DISPLAY_PREFIX_LENGTH = 12;
+// Avoid a write on every request; last-used only needs minute precision
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export const isApiKey = (token: string): boolean => token.startsWith(API_KEY_PREFIX);
+
+export const generateApiKey = (): { key: string; prefix: string; keyHash: string } => {
+  const key = API_KEY_PREFIX + generateRandomToken(32);
+  return {
+    key,
+    prefix: key.substring(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashToken(key),
+  };
+};
+
+// Resolve a raw API key to its owner and scopes, or null if it is unknown, revoked or expired
+export const verifyApiKey = async (key: string): Promise<{ user: IUser; scopes: ApiScope[] } | null> => {
+  const apiKey = await ApiKey.findOne({ keyHash: hashToken(key), revokedAt: null });
+
+  if (!apiKey || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+    return null;
+  }
+
+  const user = await User.findById(apiKey.userId);
+
+  if (!user || !isAccountActive(user)) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: new Date() });
+  }
+
+  return { user, scopes: apiKey.scopes };
+};
@@ -0,0 +1,106 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import ApiKey, { IApiKey } from './apiKey.model';
+import { generateApiKey } from './apiKey.service';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+
+const MAX_API_KEYS_PER_USER = 25;
+
+const formatApiKey = (apiKey: IApiKey) => ({
+  id: apiKey._id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  expiresAt: apiKey.expiresAt,
+  lastUsedAt: apiKey.lastUsedAt,
+  createdAt: apiKey.createdAt,
+});
+
+export const createApiKey = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { name, scopes, expiresAt } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const activeCount = await ApiKey.countDocuments({ userId, revokedAt: null });
+    if (activeCount >= MAX_API_KEYS_PER_USER) {
+      throw new AppError(`You can have at most ${MAX_API_KEYS_PER_USER} active API keys`, 400);
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const apiKey = await ApiKey.create({
+      userId,
+      name,
+      prefix,
+      keyHash,
+      scopes: [...new Set(scopes)],
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'API key created. Copy it now, it will not be shown again.',
+      data: {
+        apiKey: formatApiKey(apiKey),
+        key,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getApiKeys = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const apiKeys = await ApiKey.find({ userId, revokedAt: null }).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { apiKeys: apiKeys.map(formatApiKey) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeApiKey = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    if (!mongoose.isValidObjectId(id)) {
+      throw new AppError('API key not found', 404);
+    }
+
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { _id: id, userId, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+
+    if (!apiKey) {
+      throw new AppError('API key not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'API key revoked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
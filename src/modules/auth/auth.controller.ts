@@ -1,9 +1,61 @@
 import { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
-import User from '../users/user.model';
-import { generateToken, generateRefreshToken, verifyRefreshToken } from '../../utils/jwt';
+import { Server as SocketIOServer } from 'socket.io';
+import User, { IUser } from '../users/user.model';
+import { assertAccountActive } from '../users/account.policy';
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeUserSessions,
+  getSessionContext,
+} from './session.service';
+import { issueAuthToken, consumeAuthToken } from './token.service';
+import { verifySecondFactor } from './mfa.service';
+import {
+  getProviderOrThrow,
+  completeAuthorization,
+  findOrProvisionUser,
+  linkIdentity,
+} from './oidc.service';
+import { OidcFlowMode } from './oidcState.model';
+import { PhoneOtpPurpose } from './phoneOtp.model';
+import { sendPhoneOtp, verifyPhoneOtp } from './phoneOtp.service';
+import {
+  assertLoginAllowed,
+  recordFailedLogin,
+  clearFailedLogins,
+  unlockAccount,
+} from './lockout.service';
+import { AuthTokenType } from './token.model';
+import { passwordResetEmail, passwordChangedEmail, emailVerificationEmail } from './auth.emails';
 import { AppError } from '../../utils/errors';
-import { AuthRequest } from '../../types';
+import { generateMfaToken, verifyMfaToken } from '../../utils/jwt';
+import { sendMail } from '../../utils/mailer';
+import logger from '../../utils/logger';
+import { AuthRequest, PresenceState } from '../../types';
+import { disconnectSessionSockets } from '../../sockets/socket.handler';
+
+const EMAIL_VERIFICATION_EXPIRES_MINUTES = parseInt(
+  process.env.EMAIL_VERIFICATION_EXPIRES_MINUTES || '1440',
+  10
+);
+
+// Helper function to issue a verification token and email it - failures are logged, not thrown
+const sendVerificationEmail = async (user: IUser): Promise<void> => {
+  try {
+    const token = await issueAuthToken(
+      user._id.toString(),
+      AuthTokenType.EMAIL_VERIFICATION,
+      EMAIL_VERIFICATION_EXPIRES_MINUTES
+    );
+    await sendMail(
+      emailVerificationEmail(user.email, user.username, token, EMAIL_VERIFICATION_EXPIRES_MINUTES)
+    );
+  } catch (error) {
+    logger.error('Failed to send verification email:', error);
+  }
+};
 
 export const signup = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -48,6 +100,7 @@ export const signup = async (req: Request, res: Response, next: NextFunction): P
     const userData: any = {
       username,
       email,
+      emailVerified: false,
       password: hashedPassword,
     };
 
@@ -59,18 +112,11 @@ export const signup = async (req: Request, res: Response, next: NextFunction): P
     // Create user - phoneNumber will be stored if provided
     const user = await User.create(userData);
 
-    // Generate tokens
-    const token = generateToken({
-      id: user._id.toString(),
-      email: user.email,
-      username: user.username,
-    });
+    // Send the email verification link
+    await sendVerificationEmail(user);
 
-    const refreshToken = generateRefreshToken({
-      id: user._id.toString(),
-      email: user.email,
-      username: user.username,
-    });
+    // Start a session for this device and issue tokens
+    const { token, refreshToken } = await createSession(user, getSessionContext(req));
 
     res.status(201).json({
       success: true,
@@ -80,7 +126,9 @@ export const signup = async (req: Request, res: Response, next: NextFunction): P
           id: user._id,
           username: user.username,
           email: user.email,
+          emailVerified: user.emailVerified !== false,
           phoneNumber: user.phoneNumber,
+          phoneVerified: user.phoneVerified,
           avatar: user.avatar,
           status: user.status,
         },
@@ -93,90 +141,216 @@ export const signup = async (req: Request, res: Response, next: NextFunction): P
   }
 };
 
+// Helper function to finish a successful login - marks the user online, starts a session and responds with tokens
+const completeLogin = async (user: IUser, req: Request, res: Response): Promise<void> => {
+  assertAccountActive(user);
+
+  // Update last seen and online status, unless the user is invisible
+  if (user.presenceMode !== PresenceState.INVISIBLE) {
+    user.lastSeen = new Date();
+    user.isOnline = true;
+  }
+  await user.save();
+
+  // Start a session for this device and issue tokens
+  const { token, refreshToken } = await createSession(user, getSessionContext(req));
+
+  res.json({
+    success: true,
+    message: 'Login successful',
+    data: {
+      user: {
+        id: user._id,
+        username: user.username,
+        email: user.email,
+        emailVerified: user.emailVerified !== false,
+        phoneNumber: user.phoneNumber,
+        phoneVerified: user.phoneVerified,
+        avatar: user.avatar,
+        status: user.status,
+        role: user.role,
+        isOnline: user.isOnline,
+      },
+      token,
+      refreshToken,
+    },
+  });
+};
+
+// Helper function to answer the first login step of an account with 2FA enabled
+const sendMfaChallenge = (user: IUser, res: Response): void => {
+  assertAccountActive(user);
+
+  res.json({
+    success: true,
+    message: 'Two-factor authentication required',
+    data: {
+      mfaRequired: true,
+      mfaToken: generateMfaToken(user._id.toString()),
+    },
+  });
+};
+
 export const login = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { email, password } = req.body;
 
+    // Refuse early while the account or IP is locked out
+    await assertLoginAllowed(email, req.ip);
+
     // Find user and include password
     const user = await User.findOne({ email }).select('+password');
 
-    if (!user) {
+    // Verify password (unknown emails count as failures too)
+    const isPasswordValid = user ? await bcrypt.compare(password, user.password) : false;
+
+    if (!user || !isPasswordValid) {
+      await recordFailedLogin(email, req.ip);
       throw new AppError('Invalid email or password', 401);
     }
 
-    // Verify password
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    await clearFailedLogins(email);
 
-    if (!isPasswordValid) {
-      throw new AppError('Invalid email or password', 401);
+    // Accounts with 2FA need a second step before any tokens are issued
+    if (user.twoFactorEnabled) {
+      sendMfaChallenge(user, res);
+      return;
     }
 
-    // Update last seen and online status
-    user.lastSeen = new Date();
-    user.isOnline = true;
-    await user.save();
+    await completeLogin(user, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
 
-    // Generate tokens
-    const token = generateToken({
-      id: user._id.toString(),
-      email: user.email,
-      username: user.username,
-    });
+export const loginWithTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { mfaToken, code, recoveryCode } = req.body;
 
-    const refreshToken = generateRefreshToken({
-      id: user._id.toString(),
-      email: user.email,
-      username: user.username,
-    });
+    let userId: string;
+    try {
+      userId = verifyMfaToken(mfaToken).id;
+    } catch (error) {
+      throw new AppError('Invalid or expired two-factor session, please log in again', 401);
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    await assertLoginAllowed(user.email, req.ip);
+
+    if (!(await verifySecondFactor(userId, { code, recoveryCode }))) {
+      await recordFailedLogin(user.email, req.ip);
+      throw new AppError('Invalid two-factor code', 401);
+    }
+
+    await clearFailedLogins(user.email);
+
+    await completeLogin(user, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const oidcCallback = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { provider: providerId } = req.params;
+    const { code, state } = req.body;
+
+    const provider = getProviderOrThrow(providerId);
+    const { claims, mode, userId } = await completeAuthorization(provider, code, state);
+
+    // Linking flow started from an authenticated session
+    if (mode === OidcFlowMode.LINK && userId) {
+      await linkIdentity(userId, provider.id, claims);
+      res.json({
+        success: true,
+        message: 'Provider linked successfully',
+        data: { provider: provider.id },
+      });
+      return;
+    }
+
+    const user = await findOrProvisionUser(provider.id, claims);
+
+    if (user.twoFactorEnabled) {
+      sendMfaChallenge(user, res);
+      return;
+    }
+
+    await completeLogin(user, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const startPhoneLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { phoneNumber } = req.body;
+
+    // Only verified numbers can log in; respond the same way either way
+    const user = await User.findOne({ phoneNumber, phoneVerified: true }).select('_id');
+
+    if (user) {
+      await sendPhoneOtp(phoneNumber, PhoneOtpPurpose.LOGIN, user._id.toString());
+    }
 
     res.json({
       success: true,
-      message: 'Login successful',
-      data: {
-        user: {
-          id: user._id,
-          username: user.username,
-          email: user.email,
-          phoneNumber: user.phoneNumber,
-          avatar: user.avatar,
-          status: user.status,
-          isOnline: user.isOnline,
-        },
-        token,
-        refreshToken,
-      },
+      message: 'If this number is registered, a login code has been sent',
     });
   } catch (error) {
     next(error);
   }
 };
 
-export const refreshToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const phoneLogin = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { refreshToken } = req.body;
+    const { phoneNumber, code } = req.body;
 
-    if (!refreshToken) {
-      throw new AppError('Refresh token is required', 400);
-    }
+    const isValid = await verifyPhoneOtp(phoneNumber, PhoneOtpPurpose.LOGIN, code);
 
-    const decoded = verifyRefreshToken(refreshToken);
+    if (!isValid) {
+      throw new AppError('Invalid or expired login code', 401);
+    }
 
-    const user = await User.findById(decoded.id);
+    const user = await User.findOne({ phoneNumber, phoneVerified: true });
 
     if (!user) {
-      throw new AppError('User not found', 404);
+      throw new AppError('Invalid or expired login code', 401);
     }
 
-    const newToken = generateToken({
-      id: user._id.toString(),
-      email: user.email,
-      username: user.username,
-    });
+    if (user.twoFactorEnabled) {
+      sendMfaChallenge(user, res);
+      return;
+    }
+
+    await completeLogin(user, req, res);
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const refreshToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken) {
+      throw new AppError('Refresh token is required', 400);
+    }
+
+    // Rotate the refresh token; reusing an old one revokes the session
+    const tokens = await rotateSession(refreshToken, getSessionContext(req));
 
     res.json({
       success: true,
       data: {
-        token: newToken,
+        token: tokens.token,
+        refreshToken: tokens.refreshToken,
       },
     });
   } catch (error) {
@@ -187,6 +361,17 @@ export const refreshToken = async (req: Request, res: Response, next: NextFuncti
 export const logout = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const userId = req.user?.id;
+    const sessionId = req.user?.sessionId;
+
+    // Revoke the session so its refresh token can no longer be used
+    if (sessionId) {
+      await revokeSession(sessionId, 'logout');
+
+      const io = req.app.get('io') as SocketIOServer | undefined;
+      if (io) {
+        disconnectSessionSockets(io, [sessionId]);
+      }
+    }
 
     if (userId) {
       await User.findByIdAndUpdate(userId, {
@@ -225,11 +410,14 @@ export const getMe = async (req: AuthRequest, res: Response, next: NextFunction)
           id: user._id,
           username: user.username,
           email: user.email,
+          emailVerified: user.emailVerified !== false,
           phoneNumber: user.phoneNumber,
+          phoneVerified: user.phoneVerified,
           avatar: user.avatar,
           status: user.status,
           isOnline: user.isOnline,
           lastSeen: user.lastSeen,
+          twoFactorEnabled: user.twoFactorEnabled,
           createdAt: user.createdAt,
         },
       },
@@ -239,3 +427,174 @@ export const getMe = async (req: AuthRequest, res: Response, next: NextFunction)
   }
 };
 
+
+const PASSWORD_RESET_EXPIRES_MINUTES = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60', 10);
+
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email });
+
+    // Only send an email if the account exists, but respond the same either way
+    // so the endpoint cannot be used to discover registered addresses
+    if (user) {
+      const token = await issueAuthToken(
+        user._id.toString(),
+        AuthTokenType.PASSWORD_RESET,
+        PASSWORD_RESET_EXPIRES_MINUTES
+      );
+
+      try {
+        await sendMail(passwordResetEmail(user.email, user.username, token, PASSWORD_RESET_EXPIRES_MINUTES));
+      } catch (error) {
+        logger.error('Failed to send password reset email:', error);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    const userId = await consumeAuthToken(token, AuthTokenType.PASSWORD_RESET);
+
+    if (!userId) {
+      throw new AppError('Invalid or expired reset token', 400);
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    user.password = await bcrypt.hash(password, 12);
+    user.hasPassword = true;
+    await user.save();
+
+    // Proving control of the mailbox lifts any login lockout
+    await unlockAccount(user.email);
+
+    // Anyone holding a session may be the reason for the reset, so sign out everywhere
+    const revokedIds = await revokeUserSessions(userId, 'password_reset');
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    if (io) {
+      disconnectSessionSockets(io, revokedIds);
+    }
+
+    res.json({
+      success: true,
+      message: 'Password reset successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const changePassword = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { currentPassword, newPassword } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const user = await User.findById(userId).select('+password');
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    // Accounts provisioned through an identity provider set their first password without one
+    if (user.hasPassword !== false) {
+      if (!currentPassword || !(await bcrypt.compare(currentPassword, user.password))) {
+        throw new AppError('Current password is incorrect', 401);
+      }
+    }
+
+    user.password = await bcrypt.hash(newPassword, 12);
+    user.hasPassword = true;
+    await user.save();
+
+    // Keep the current session, sign out all others
+    const revokedIds = await revokeUserSessions(userId, 'password_changed', req.user?.sessionId);
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    if (io) {
+      disconnectSessionSockets(io, revokedIds);
+    }
+
+    try {
+      await sendMail(passwordChangedEmail(user.email, user.username));
+    } catch (error) {
+      logger.error('Failed to send password changed email:', error);
+    }
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    const userId = await consumeAuthToken(token, AuthTokenType.EMAIL_VERIFICATION);
+
+    if (!userId) {
+      throw new AppError('Invalid or expired verification token', 400);
+    }
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { emailVerified: true, emailVerifiedAt: new Date() },
+      { new: true }
+    );
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendVerification = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email });
+
+    // Same response whether or not the account exists or is already verified
+    if (user && user.emailVerified === false) {
+      await sendVerificationEmail(user);
+    }
+
+    res.json({
+      success: true,
+      message: 'If this email needs verification, a new link has been sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,48 @@
+import { MailMessage } from '../../utils/mailer';
+
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
+export const passwordResetEmail = (
+  to: string,
+  username: string,
+  token: string,
+  ttlMinutes: number
+): MailMessage => {
+  const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  return {
+    to,
+    subject: 'Reset your Chert password',
+    text:
+      `Hi ${username},\n\n` +
+      `We received a request to reset your password. Use the link below within ${ttlMinutes} minutes:\n\n` +
+      `${link}\n\n` +
+      `If you did not request this, you can ignore this email.`,
+  };
+};
+
+export const passwordChangedEmail = (to: string, username: string): MailMessage => ({
+  to,
+  subject: 'Your Chert password was changed',
+  text:
+    `Hi ${username},\n\n` +
+    `The password for your account was just changed and your other sessions were signed out.\n\n` +
+    `If this wasn't you, reset your password immediately.`,
+});
+
+export const emailVerificationEmail = (
+  to: string,
+  username: string,
+  token: string,
+  ttlMinutes: number
+): MailMessage => {
+  const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+  return {
+    to,
+    subject: 'Verify your Chert email address',
+    text:
+      `Hi ${username},\n\n` +
+      `Please confirm your email address by opening the link below within ${Math.round(ttlMinutes / 60)} hours:\n\n` +
+      `${link}\n\n` +
+      `If you did not create a Chert account, you can ignore this email.`,
+  };
+};
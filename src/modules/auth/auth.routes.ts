@@ -1,16 +1,57 @@
 import { Router } from 'express';
 import * as authController from './auth.controller';
+import * as sessionsController from './sessions.controller';
+import * as mfaController from './mfa.controller';
+import * as apiKeysController from './apiKeys.controller';
+import * as oidcController from './oidc.controller';
+import * as phoneController from './phone.controller';
 import { validate } from '../../middlewares/validation.middleware';
-import { authMiddleware } from '../../middlewares/auth.middleware';
+import { authMiddleware, requireUserLogin } from '../../middlewares/auth.middleware';
 import * as authValidation from './auth.validation';
 
 const router = Router();
 
 router.post('/signup', validate(authValidation.signupSchema), authController.signup);
 router.post('/login', validate(authValidation.loginSchema), authController.login);
+router.post('/login/2fa', validate(authValidation.loginTwoFactorSchema), authController.loginWithTwoFactor);
 router.post('/refresh-token', validate(authValidation.refreshTokenSchema), authController.refreshToken);
-router.post('/logout', authMiddleware, authController.logout);
+router.post('/logout', authMiddleware, requireUserLogin, authController.logout);
 router.get('/me', authMiddleware, authController.getMe);
+router.post('/forgot-password', validate(authValidation.forgotPasswordSchema), authController.forgotPassword);
+router.post('/reset-password', validate(authValidation.resetPasswordSchema), authController.resetPassword);
+router.post('/verify-email', validate(authValidation.verifyEmailSchema), authController.verifyEmail);
+router.post('/resend-verification', validate(authValidation.resendVerificationSchema), authController.resendVerification);
+router.post('/change-password', authMiddleware, requireUserLogin, validate(authValidation.changePasswordSchema), authController.changePassword);
+
+// Phone number verification and SMS login
+router.post('/phone/verify/start', authMiddleware, requireUserLogin, validate(authValidation.phoneNumberSchema), phoneController.startPhoneVerification);
+router.post('/phone/verify/confirm', authMiddleware, requireUserLogin, validate(authValidation.confirmPhoneSchema), phoneController.confirmPhoneVerification);
+router.post('/phone/login/start', validate(authValidation.phoneNumberSchema), authController.startPhoneLogin);
+router.post('/phone/login', validate(authValidation.phoneLoginSchema), authController.phoneLogin);
+
+// OpenID Connect login and account linking
+router.get('/oidc/providers', oidcController.getProviders);
+router.get('/oidc/identities', authMiddleware, requireUserLogin, oidcController.getIdentities);
+router.post('/oidc/:provider/authorize', validate(authValidation.oidcAuthorizeSchema), oidcController.authorize);
+router.post('/oidc/:provider/callback', validate(authValidation.oidcCallbackSchema), authController.oidcCallback);
+router.post('/oidc/:provider/link', authMiddleware, requireUserLogin, validate(authValidation.oidcAuthorizeSchema), oidcController.linkProvider);
+router.delete('/oidc/:provider/link', authMiddleware, requireUserLogin, oidcController.unlinkProvider);
+
+// Two-factor authentication (TOTP)
+router.post('/2fa/setup', authMiddleware, requireUserLogin, validate(authValidation.setupTwoFactorSchema), mfaController.setupTwoFactor);
+router.post('/2fa/confirm', authMiddleware, requireUserLogin, validate(authValidation.confirmTwoFactorSchema), mfaController.confirmTwoFactor);
+router.post('/2fa/disable', authMiddleware, requireUserLogin, validate(authValidation.disableTwoFactorSchema), mfaController.disableTwoFactor);
+router.post('/2fa/recovery-codes', authMiddleware, requireUserLogin, validate(authValidation.confirmTwoFactorSchema), mfaController.regenerateRecoveryCodes);
+
+// Device/session management
+router.get('/sessions', authMiddleware, requireUserLogin, sessionsController.getSessions);
+router.delete('/sessions', authMiddleware, requireUserLogin, sessionsController.revokeOtherSessions);
+router.delete('/sessions/:id', authMiddleware, requireUserLogin, sessionsController.revokeSessionById);
+
+// API keys for scripts and integrations
+router.get('/api-keys', authMiddleware, requireUserLogin, apiKeysController.getApiKeys);
+router.post('/api-keys', authMiddleware, requireUserLogin, validate(authValidation.createApiKeySchema), apiKeysController.createApiKey);
+router.delete('/api-keys/:id', authMiddleware, requireUserLogin, apiKeysController.revokeApiKey);
 
 export default router;
 
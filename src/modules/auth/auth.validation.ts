@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { ApiScope } from '../../types';
 
 export const signupSchema = z.object({
   body: z.object({
@@ -17,6 +18,7 @@ export const signupSchema = z.object({
       .transform((val) => (val && val.trim() !== '' ? val.trim() : undefined))
       .optional(),
     password: z.string().min(6, 'Password must be at least 6 characters'),
+    deviceName: z.string().max(100).optional(),
   }),
 });
 
@@ -24,6 +26,7 @@ export const loginSchema = z.object({
   body: z.object({
     email: z.string().email('Please provide a valid email'),
     password: z.string().min(1, 'Password is required'),
+    deviceName: z.string().max(100).optional(),
   }),
 });
 
@@ -33,3 +36,130 @@ export const refreshTokenSchema = z.object({
   }),
 });
 
+
+export const forgotPasswordSchema = z.object({
+  body: z.object({
+    email: z.string().email('Please provide a valid email'),
+  }),
+});
+
+export const resetPasswordSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Reset token is required'),
+    password: z.string().min(6, 'Password must be at least 6 characters'),
+  }),
+});
+
+export const changePasswordSchema = z.object({
+  body: z.object({
+    currentPassword: z.string().min(1, 'Current password is required').optional(),
+    newPassword: z.string().min(6, 'Password must be at least 6 characters'),
+  }),
+});
+
+export const verifyEmailSchema = z.object({
+  body: z.object({
+    token: z.string().min(1, 'Verification token is required'),
+  }),
+});
+
+export const resendVerificationSchema = z.object({
+  body: z.object({
+    email: z.string().email('Please provide a valid email'),
+  }),
+});
+
+const secondFactorFields = {
+  code: z.string().regex(/^[0-9]{6}$/, 'Code must be 6 digits').optional(),
+  recoveryCode: z.string().min(1).optional(),
+};
+
+const hasSecondFactor = (data: { code?: string; recoveryCode?: string }) =>
+  !!(data.code || data.recoveryCode);
+
+export const loginTwoFactorSchema = z.object({
+  body: z.object({
+    mfaToken: z.string().min(1, 'MFA token is required'),
+    ...secondFactorFields,
+    deviceName: z.string().max(100).optional(),
+  }).refine(hasSecondFactor, {
+    message: 'Either code or recoveryCode is required',
+  }),
+});
+
+export const setupTwoFactorSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, 'Password is required').optional(),
+  }),
+});
+
+export const confirmTwoFactorSchema = z.object({
+  body: z.object({
+    code: z.string().regex(/^[0-9]{6}$/, 'Code must be 6 digits'),
+  }),
+});
+
+export const disableTwoFactorSchema = z.object({
+  body: z.object({
+    password: z.string().min(1, 'Password is required').optional(),
+    ...secondFactorFields,
+  }).refine(hasSecondFactor, {
+    message: 'Either code or recoveryCode is required',
+  }),
+});
+
+export const createApiKeySchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, 'API key name is required').max(50),
+    scopes: z.array(z.nativeEnum(ApiScope)).min(1, 'At least one scope is required'),
+    expiresAt: z
+      .string()
+      .datetime()
+      .refine((val) => new Date(val) > new Date(), 'Expiry must be in the future')
+      .optional(),
+  }),
+});
+
+export const oidcAuthorizeSchema = z.object({
+  params: z.object({
+    provider: z.string().min(1),
+  }),
+  body: z.object({
+    redirectUri: z.string().url('Please provide a valid redirect URI'),
+  }),
+});
+
+export const oidcCallbackSchema = z.object({
+  params: z.object({
+    provider: z.string().min(1),
+  }),
+  body: z.object({
+    code: z.string().min(1, 'Authorization code is required'),
+    state: z.string().min(1, 'State is required'),
+    deviceName: z.string().max(100).optional(),
+  }),
+});
+
+const phoneNumberField = z.string().regex(/^[0-9]{10,11}$/, 'Invalid phone number (10-11 digits)');
+const otpCodeField = z.string().regex(/^[0-9]{6}$/, 'Code must be 6 digits');
+
+export const phoneNumberSchema = z.object({
+  body: z.object({
+    phoneNumber: phoneNumberField,
+  }),
+});
+
+export const confirmPhoneSchema = z.object({
+  body: z.object({
+    phoneNumber: phoneNumberField,
+    code: otpCodeField,
+  }),
+});
+
+export const phoneLoginSchema = z.object({
+  body: z.object({
+    phoneNumber: phoneNumberField,
+    code: otpCodeField,
+    deviceName: z.string().max(100).optional(),
+  }),
+});
@@ -0,0 +1,73 @@
+import { assertLoginAllowed, clearFailedLogins, recordFailedLogin, unlockAccount } from './lockout.service';
+import { AccountLockedError } from '../../utils/errors';
+
+// Failures past the second are answered slowly; let the delays pass instantly
+const failLogin = async (account: string, ip?: string): Promise<void> => {
+  const attempt = recordFailedLogin(account, ip);
+  attempt.catch(() => undefined);
+  await jest.advanceTimersByTimeAsync(10 * 1000);
+  return attempt;
+};
+
+describe('login lockout', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setInterval'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('locks the account on the fifth failure within the window', async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await failLogin('bob@example.com');
+    }
+    await expect(assertLoginAllowed('bob@example.com')).resolves.toBeUndefined();
+
+    const lockout = failLogin('bob@example.com');
+    await expect(lockout).rejects.toBeInstanceOf(AccountLockedError);
+    await expect(lockout).rejects.toMatchObject({ statusCode: 429, retryAfter: 15 * 60 });
+    await expect(assertLoginAllowed('BOB@example.com')).rejects.toBeInstanceOf(AccountLockedError);
+  });
+
+  it('lifts the lock once the lockout period is over', async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await failLogin('carol@example.com');
+    }
+    await expect(failLogin('carol@example.com')).rejects.toBeInstanceOf(AccountLockedError);
+
+    jest.setSystemTime(Date.now() + 15 * 60 * 1000 + 1000);
+
+    await expect(assertLoginAllowed('carol@example.com')).resolves.toBeUndefined();
+  });
+
+  it('locks an IP that fails across many accounts', async () => {
+    for (let attempt = 1; attempt < 20; attempt++) {
+      await failLogin(`user${attempt}@example.com`, '203.0.113.7');
+    }
+    await expect(failLogin('user20@example.com', '203.0.113.7')).rejects.toBeInstanceOf(AccountLockedError);
+
+    await expect(assertLoginAllowed('someone@example.com', '203.0.113.7')).rejects.toBeInstanceOf(AccountLockedError);
+    await expect(assertLoginAllowed('someone@example.com', '198.51.100.1')).resolves.toBeUndefined();
+  });
+
+  it('starts counting again after a successful login', async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await failLogin('dave@example.com');
+    }
+    await clearFailedLogins('dave@example.com');
+
+    await expect(failLogin('dave@example.com')).resolves.toBeUndefined();
+  });
+
+  it('can be unlocked, e.g. by a password reset', async () => {
+    for (let attempt = 1; attempt < 5; attempt++) {
+      await failLogin('erin@example.com');
+    }
+    await expect(failLogin('erin@example.com')).rejects.toBeInstanceOf(AccountLockedError);
+
+    await unlockAccount('erin@example.com');
+
+    await expect(assertLoginAllowed('erin@example.com')).resolves.toBeUndefined();
+  });
+});
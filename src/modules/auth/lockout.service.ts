@@ -0,0 +1,75 @@
+import { getCounterStore } from '../../utils/counterStore';
+import { AccountLockedError } from '../../utils/errors';
+import logger from '../../utils/logger';
+
+// Failed logins are counted per account and per IP within a window. Every
+// failure past a threshold is answered more slowly, and reaching the limit
+// locks the account (or IP) for a while.
+const MAX_ACCOUNT_ATTEMPTS = parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10);
+const MAX_IP_ATTEMPTS = parseInt(process.env.LOGIN_MAX_ATTEMPTS_PER_IP || '20', 10);
+const ATTEMPT_WINDOW_SECONDS = parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || '15', 10) * 60;
+const LOCKOUT_SECONDS = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) * 60;
+const DELAY_AFTER_ATTEMPTS = 2;
+const MAX_DELAY_MS = 8000;
+
+const accountKey = (account: string) => `login:account:${account.toLowerCase()}`;
+const ipKey = (ip: string) => `login:ip:${ip}`;
+const lockKey = (key: string) => `${key}:lock`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 1s, 2s, 4s, ... capped at MAX_DELAY_MS
+const progressiveDelay = (failures: number): number => {
+  if (failures <= DELAY_AFTER_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(1000 * 2 ** (failures - DELAY_AFTER_ATTEMPTS - 1), MAX_DELAY_MS);
+};
+
+// Throw AccountLockedError if the account or IP is currently locked out
+export const assertLoginAllowed = async (account: string, ip?: string): Promise<void> => {
+  const store = getCounterStore();
+  const keys = [accountKey(account), ...(ip ? [ipKey(ip)] : [])];
+
+  for (const key of keys) {
+    const retryAfter = await store.ttl(lockKey(key));
+    if (retryAfter > 0) {
+      throw new AccountLockedError(retryAfter);
+    }
+  }
+};
+
+// Record a failed attempt, wait the progressive delay and lock out when the limit is reached
+export const recordFailedLogin = async (account: string, ip?: string): Promise<void> => {
+  const store = getCounterStore();
+  const limits: [string, number][] = [
+    [accountKey(account), MAX_ACCOUNT_ATTEMPTS],
+    ...(ip ? [[ipKey(ip), MAX_IP_ATTEMPTS] as [string, number]] : []),
+  ];
+
+  let maxFailures = 0;
+  for (const [key, limit] of limits) {
+    const failures = await store.increment(key, ATTEMPT_WINDOW_SECONDS);
+    maxFailures = Math.max(maxFailures, failures);
+
+    if (failures >= limit) {
+      await store.set(lockKey(key), 1, LOCKOUT_SECONDS);
+      await store.reset(key);
+      logger.warn(`Login locked out for ${key} after ${failures} failed attempts`);
+      throw new AccountLockedError(LOCKOUT_SECONDS);
+    }
+  }
+
+  await sleep(progressiveDelay(maxFailures));
+};
+
+export const clearFailedLogins = async (account: string): Promise<void> => {
+  await getCounterStore().reset(accountKey(account));
+};
+
+// Lift an account lockout entirely, e.g. after a successful password reset
+export const unlockAccount = async (account: string): Promise<void> => {
+  const store = getCounterStore();
+  await store.reset(accountKey(account));
+  await store.reset(lockKey(accountKey(account)));
+};
@@ -0,0 +1,193 @@
+import { Response, NextFunction } from 'express';
+import bcrypt from 'bcryptjs';
+import User from '../users/user.model';
+import Session from './session.model';
+import { generateRecoveryCodes, verifySecondFactor } from './mfa.service';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../../utils/totp';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'Chert';
+const RECENT_LOGIN_MINUTES = 10;
+
+// Helper function to check who is asking when the account has no password to confirm with:
+// the session must come from a login in the last few minutes
+const assertRecentLogin = async (sessionId?: string): Promise<void> => {
+  const session = sessionId ? await Session.findById(sessionId).select('createdAt') : null;
+
+  if (!session || session.createdAt.getTime() < Date.now() - RECENT_LOGIN_MINUTES * 60 * 1000) {
+    throw new AppError(
+      `Please log in again within ${RECENT_LOGIN_MINUTES} minutes before setting up two-factor authentication`,
+      403
+    );
+  }
+};
+
+export const setupTwoFactor = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { password } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const user = await User.findById(userId).select('+password');
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is already enabled', 400);
+    }
+
+    // Accounts provisioned through an identity provider have no password to confirm with
+    if (user.hasPassword === false) {
+      await assertRecentLogin(req.user?.sessionId);
+    } else if (!password || !(await bcrypt.compare(password, user.password))) {
+      throw new AppError('Password is incorrect', 401);
+    }
+
+    // Keep the secret pending until the user proves their authenticator works
+    const secret = generateTotpSecret();
+    await User.findByIdAndUpdate(userId, { twoFactorPendingSecret: secret });
+
+    res.json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, TOTP_ISSUER),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const confirmTwoFactor = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { code } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const user = await User.findById(userId).select('+twoFactorPendingSecret');
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is already enabled', 400);
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      throw new AppError('Two-factor setup has not been started', 400);
+    }
+
+    const step = verifyTotp(user.twoFactorPendingSecret, code);
+
+    if (step === null) {
+      throw new AppError('Invalid verification code', 400);
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+
+    await User.findByIdAndUpdate(userId, {
+      $set: {
+        twoFactorEnabled: true,
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorRecoveryCodes: hashes,
+        twoFactorLastUsedStep: step,
+      },
+      $unset: { twoFactorPendingSecret: 1 },
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      data: { recoveryCodes: codes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableTwoFactor = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { password, code, recoveryCode } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const user = await User.findById(userId).select('+password');
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (!user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    // Accounts provisioned through an identity provider confirm with the second factor alone
+    if (user.hasPassword !== false) {
+      if (!password || !(await bcrypt.compare(password, user.password))) {
+        throw new AppError('Password is incorrect', 401);
+      }
+    }
+
+    if (!(await verifySecondFactor(userId, { code, recoveryCode }))) {
+      throw new AppError('Invalid two-factor code', 401);
+    }
+
+    await User.findByIdAndUpdate(userId, {
+      $set: { twoFactorEnabled: false },
+      $unset: {
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorRecoveryCodes: 1,
+        twoFactorLastUsedStep: 1,
+      },
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { code } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    if (!(await verifySecondFactor(userId, { code }))) {
+      throw new AppError('Invalid two-factor code', 401);
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    await User.findByIdAndUpdate(userId, { twoFactorRecoveryCodes: hashes });
+
+    res.json({
+      success: true,
+      message: 'Recovery codes regenerated',
+      data: { recoveryCodes: codes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
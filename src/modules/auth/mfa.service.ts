@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import User from '../users/user.model';
+import { verifyTotp } from '../../utils/totp';
+import { hashToken } from '../../utils/tokens';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+const normalizeRecoveryCode = (code: string): string => code.replace(/[\s-]/g, '').toLowerCase();
+
+// Returns the plain codes (shown to the user once) and their hashes (stored)
+export const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  return {
+    codes,
+    hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))),
+  };
+};
+
+// Check a TOTP code or a recovery code for a user with 2FA enabled. A TOTP code
+// is only accepted once and a recovery code is removed when used.
+export const verifySecondFactor = async (userId: string, factor: SecondFactor): Promise<boolean> => {
+  if (factor.code) {
+    const user = await User.findById(userId).select('+twoFactorSecret');
+    if (!user || !user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(user.twoFactorSecret, factor.code);
+    if (step === null) {
+      return false;
+    }
+
+    const result = await User.updateOne(
+      {
+        _id: userId,
+        $or: [{ twoFactorLastUsedStep: { $lt: step } }, { twoFactorLastUsedStep: { $exists: false } }],
+      },
+      { $set: { twoFactorLastUsedStep: step } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  if (factor.recoveryCode) {
+    const hash = hashToken(normalizeRecoveryCode(factor.recoveryCode));
+    const result = await User.updateOne(
+      { _id: userId, twoFactorEnabled: true, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  return false;
+};
@@ -0,0 +1,133 @@
+import { Request, Response, NextFunction } from 'express';
+import User from '../users/user.model';
+import { OidcFlowMode } from './oidcState.model';
+import { createAuthorizationUrl, getProviderOrThrow } from './oidc.service';
+import { getOidcProviders } from '../../config/oidc';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+
+export const getProviders = async (_req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      data: {
+        providers: getOidcProviders().map((provider) => ({
+          id: provider.id,
+          name: provider.name,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const authorize = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { provider: providerId } = req.params;
+    const { redirectUri } = req.body;
+
+    const provider = getProviderOrThrow(providerId);
+    const authorizationUrl = await createAuthorizationUrl(provider, redirectUri, OidcFlowMode.LOGIN);
+
+    res.json({
+      success: true,
+      data: { authorizationUrl },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const linkProvider = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { provider: providerId } = req.params;
+    const { redirectUri } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const provider = getProviderOrThrow(providerId);
+    const authorizationUrl = await createAuthorizationUrl(
+      provider,
+      redirectUri,
+      OidcFlowMode.LINK,
+      userId
+    );
+
+    res.json({
+      success: true,
+      data: { authorizationUrl },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getIdentities = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        identities: (user.identities || []).map((identity) => ({
+          provider: identity.provider,
+          email: identity.email,
+          linkedAt: identity.linkedAt,
+        })),
+        hasPassword: user.hasPassword !== false,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unlinkProvider = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { provider: providerId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const identities = user.identities || [];
+    if (!identities.some((identity) => identity.provider === providerId)) {
+      throw new AppError('Provider is not linked to your account', 404);
+    }
+
+    // Never leave an account without any way to log in
+    if (user.hasPassword === false && identities.length <= 1) {
+      throw new AppError('Set a password before unlinking your only login provider', 400);
+    }
+
+    await User.findByIdAndUpdate(userId, { $pull: { identities: { provider: providerId } } });
+
+    res.json({
+      success: true,
+      message: 'Provider unlinked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import User, { IUser } from '../users/user.model';
+import { findOrProvisionUser, linkIdentity, OidcClaims } from './oidc.service';
+
+const claims: OidcClaims = { sub: 'subject-1', email: 'Alice@Example.com', email_verified: true, name: 'Alice' };
+
+const localUser = (overrides: Partial<IUser> = {}) => {
+  const user = new User({
+    _id: new mongoose.Types.ObjectId(),
+    username: 'alice',
+    email: 'alice@example.com',
+    password: 'hashed',
+    ...overrides,
+  });
+  jest.spyOn(user, 'save').mockResolvedValue(user);
+  return user;
+};
+
+// Answer lookups by linked identity and by email separately
+const mockFindOne = (linked: IUser | null, byEmail: IUser | null) =>
+  jest
+    .spyOn(User, 'findOne')
+    .mockImplementation(((filter: Record<string, unknown>) =>
+      Promise.resolve('identities' in filter ? linked : byEmail)) as never);
+
+describe('OIDC account linking', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('logs in the user already linked to the identity', async () => {
+    const linked = localUser();
+    mockFindOne(linked, null);
+
+    await expect(findOrProvisionUser('google', claims)).resolves.toBe(linked);
+  });
+
+  it('links a verified local account with the same verified email', async () => {
+    const existing = localUser({ emailVerified: true });
+    mockFindOne(null, existing);
+
+    await expect(findOrProvisionUser('google', claims)).resolves.toBe(existing);
+    expect(existing.identities).toEqual([expect.objectContaining({ provider: 'google', subject: 'subject-1' })]);
+    expect(existing.save).toHaveBeenCalled();
+  });
+
+  it('does not link an unverified local account', async () => {
+    const existing = localUser({ emailVerified: false });
+    mockFindOne(null, existing);
+    jest.spyOn(User, 'exists').mockResolvedValue({ _id: existing._id });
+    const create = jest.spyOn(User, 'create');
+
+    await expect(findOrProvisionUser('google', claims)).rejects.toMatchObject({ statusCode: 409 });
+    expect(existing.identities).toHaveLength(0);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('does not link by an email the provider has not verified', async () => {
+    const existing = localUser({ emailVerified: true });
+    const findOne = mockFindOne(null, existing);
+    jest.spyOn(User, 'exists').mockResolvedValue({ _id: existing._id });
+
+    await expect(findOrProvisionUser('google', { ...claims, email_verified: false })).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(findOne).toHaveBeenCalledTimes(1);
+    expect(existing.identities).toHaveLength(0);
+  });
+
+  it('provisions a passwordless account for a new email', async () => {
+    mockFindOne(null, null);
+    jest.spyOn(User, 'exists').mockResolvedValue(null);
+    const create = jest.spyOn(User, 'create').mockImplementation(((doc: Partial<IUser>) => Promise.resolve(doc)) as never);
+
+    await findOrProvisionUser('google', claims);
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'alice@example.com',
+        emailVerified: true,
+        hasPassword: false,
+        identities: [expect.objectContaining({ provider: 'google', subject: 'subject-1' })],
+      })
+    );
+  });
+
+  it('refuses to link an identity owned by another user', async () => {
+    jest.spyOn(User, 'findOne').mockReturnValue({
+      select: () => Promise.resolve({ _id: new mongoose.Types.ObjectId() }),
+    } as never);
+    const update = jest.spyOn(User, 'findByIdAndUpdate');
+
+    await expect(linkIdentity(new mongoose.Types.ObjectId().toString(), 'google', claims)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
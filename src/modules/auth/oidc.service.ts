@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import bcrypt from 'bcryptjs';
+import OidcState, { OidcFlowMode } from './oidcState.model';
+import User, { IUser } from '../users/user.model';
+import { getOidcProvider, OidcProviderConfig } from '../../config/oidc';
+import { generateRandomToken, hashToken } from '../../utils/tokens';
+import { AppError } from '../../utils/errors';
+import logger from '../../utils/logger';
+
+const STATE_TTL_MINUTES = 10;
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+// A JSON Web Key as published in the provider's JWKS
+interface OidcJwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+interface OidcJwks {
+  keys?: OidcJwk[];
+}
+
+interface OidcTokenResponse {
+  id_token?: string;
+  access_token?: string;
+  token_type?: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  preferred_username?: string;
+  nonce?: string;
+}
+
+const discoveryCache = new Map<string, { discovery: OidcDiscovery; fetchedAt: number }>();
+const jwksCache = new Map<string, OidcJwk[]>();
+
+export const getProviderOrThrow = (providerId: string): OidcProviderConfig => {
+  const provider = getOidcProvider(providerId);
+  if (!provider) {
+    throw new AppError('Unknown identity provider', 404);
+  }
+  return provider;
+};
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    logger.error(`OIDC request to ${url} failed:`, error);
+    throw new AppError('Identity provider is unavailable', 502);
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    logger.warn(`OIDC request to ${url} returned ${response.status}: ${JSON.stringify(body)}`);
+    throw new AppError('Identity provider rejected the request', 502);
+  }
+  return body as T;
+};
+
+const discover = async (provider: OidcProviderConfig): Promise<OidcDiscovery> => {
+  const cached = discoveryCache.get(provider.id);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_MS) {
+    return cached.discovery;
+  }
+
+  const discovery = await fetchJson<OidcDiscovery>(`${provider.issuer}/.well-known/openid-configuration`);
+  discoveryCache.set(provider.id, { discovery, fetchedAt: Date.now() });
+  return discovery;
+};
+
+const getSigningKey = async (provider: OidcProviderConfig, kid?: string): Promise<crypto.KeyObject> => {
+  const findKey = (keys: OidcJwk[]) =>
+    keys.find((key) => (kid ? key.kid === kid : key.use !== 'enc'));
+
+  let key = findKey(jwksCache.get(provider.id) || []);
+
+  // Unknown kid usually means the provider rotated its keys
+  if (!key) {
+    const discovery = await discover(provider);
+    const jwks = await fetchJson<OidcJwks>(discovery.jwks_uri);
+    jwksCache.set(provider.id, jwks.keys || []);
+    key = findKey(jwks.keys || []);
+  }
+
+  if (!key) {
+    throw new AppError('Identity provider signing key not found', 502);
+  }
+
+  return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+const verifyIdToken = async (
+  provider: OidcProviderConfig,
+  idToken: string,
+  nonce: string
+): Promise<OidcClaims> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded) {
+    throw new AppError('Invalid ID token', 502);
+  }
+
+  const discovery = await discover(provider);
+  const publicKey = await getSigningKey(provider, decoded.header.kid);
+
+  let claims: OidcClaims;
+  try {
+    claims = jwt.verify(idToken, publicKey, {
+      algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'],
+      issuer: discovery.issuer,
+      audience: provider.clientId,
+    }) as OidcClaims;
+  } catch (error) {
+    logger.warn(`Rejected ID token from ${provider.id}:`, error);
+    throw new AppError('Invalid ID token', 401);
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new AppError('Invalid ID token nonce', 401);
+  }
+
+  return claims;
+};
+
+// Start an authorization code + PKCE flow and return the URL to send the user to
+export const createAuthorizationUrl = async (
+  provider: OidcProviderConfig,
+  redirectUri: string,
+  mode: OidcFlowMode,
+  userId?: string
+): Promise<string> => {
+  if (!provider.redirectUris.includes(redirectUri)) {
+    throw new AppError('Redirect URI is not allowed for this provider', 400);
+  }
+
+  const discovery = await discover(provider);
+  const state = generateRandomToken();
+  const nonce = generateRandomToken();
+  const codeVerifier = generateRandomToken(48);
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+  await OidcState.create({
+    stateHash: hashToken(state),
+    provider: provider.id,
+    codeVerifier,
+    nonce,
+    redirectUri,
+    mode,
+    userId,
+    expiresAt: new Date(Date.now() + STATE_TTL_MINUTES * 60 * 1000),
+  });
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: redirectUri,
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+
+  return `${discovery.authorization_endpoint}?${params.toString()}`;
+};
+
+// Redeem the authorization code from the callback and return the verified ID token claims
+export const completeAuthorization = async (
+  provider: OidcProviderConfig,
+  code: string,
+  state: string
+): Promise<{ claims: OidcClaims; mode: OidcFlowMode; userId?: string }> => {
+  const pending = await OidcState.findOneAndDelete({
+    stateHash: hashToken(state),
+    provider: provider.id,
+    expiresAt: { $gt: new Date() },
+  });
+
+  if (!pending) {
+    throw new AppError('Invalid or expired login state', 400);
+  }
+
+  const discovery = await discover(provider);
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: pending.redirectUri,
+    client_id: provider.clientId,
+    code_verifier: pending.codeVerifier,
+  });
+  if (provider.clientSecret) {
+    body.set('client_secret', provider.clientSecret);
+  }
+
+  const tokens = await fetchJson<OidcTokenResponse>(discovery.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: body.toString(),
+  });
+
+  if (!tokens.id_token) {
+    throw new AppError('Identity provider did not return an ID token', 502);
+  }
+
+  const claims = await verifyIdToken(provider, tokens.id_token, pending.nonce);
+
+  return { claims, mode: pending.mode, userId: pending.userId?.toString() };
+};
+
+const generateUniqueUsername = async (claims: OidcClaims): Promise<string> => {
+  const source = claims.preferred_username || claims.email?.split('@')[0] || claims.name || 'user';
+  let base = source.replace(/[^a-zA-Z0-9_.]/g, '').substring(0, 24);
+  if (base.length < 3) {
+    base = `user${base}`;
+  }
+
+  let candidate = base;
+  for (let attempt = 0; attempt < 5; attempt++) {
+    if (!(await User.exists({ username: candidate }))) {
+      return candidate;
+    }
+    candidate = `${base}${crypto.randomInt(1000, 9999)}`;
+  }
+
+  return `${base}${Date.now().toString(36)}`;
+};
+
+const identityFromClaims = (providerId: string, claims: OidcClaims) => ({
+  provider: providerId,
+  subject: claims.sub,
+  email: claims.email,
+  linkedAt: new Date(),
+});
+
+// Find the user for an identity, linking by verified email or creating a new account
+export const findOrProvisionUser = async (providerId: string, claims: OidcClaims): Promise<IUser> => {
+  const linkedUser = await User.findOne({
+    identities: { $elemMatch: { provider: providerId, subject: claims.sub } },
+  });
+  if (linkedUser) {
+    return linkedUser;
+  }
+
+  const email = claims.email?.toLowerCase();
+
+  // Only trust the email for linking when the provider says it is verified
+  if (email && claims.email_verified) {
+    // An unverified local account may have been registered by someone else with this email, so
+    // the owner has to log in and link the provider themselves
+    const existingUser = await User.findOne({ email });
+    if (existingUser && existingUser.emailVerified !== false) {
+      existingUser.identities.push(identityFromClaims(providerId, claims));
+      await existingUser.save();
+      return existingUser;
+    }
+  }
+
+  if (!email) {
+    throw new AppError('Identity provider did not share an email address', 400);
+  }
+
+  if (await User.exists({ email })) {
+    throw new AppError('An account with this email already exists. Log in and link the provider instead.', 409);
+  }
+
+  // Provisioned accounts get an unusable random password until the user sets one
+  return User.create({
+    username: await generateUniqueUsername(claims),
+    email,
+    emailVerified: !!claims.email_verified,
+    emailVerifiedAt: claims.email_verified ? new Date() : undefined,
+    password: await bcrypt.hash(generateRandomToken(), 12),
+    hasPassword: false,
+    identities: [identityFromClaims(providerId, claims)],
+  });
+};
+
+export const linkIdentity = async (userId: string, providerId: string, claims: OidcClaims): Promise<void> => {
+  const owner = await User.findOne({
+    identities: { $elemMatch: { provider: providerId, subject: claims.sub } },
+  }).select('_id');
+
+  if (owner && owner._id.toString() !== userId) {
+    throw new AppError('This account is already linked to another user', 409);
+  }
+
+  if (!owner) {
+    await User.findByIdAndUpdate(userId, {
+      $pull: { identities: { provider: providerId } },
+    });
+    await User.findByIdAndUpdate(userId, {
+      $push: { identities: identityFromClaims(providerId, claims) },
+    });
+  }
+};
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum OidcFlowMode {
+  LOGIN = 'login',
+  LINK = 'link',
+}
+
+// Pending OpenID Connect authorization request, consumed by the callback
+export interface IOidcState extends Document {
+  stateHash: string;
+  provider: string;
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  mode: OidcFlowMode;
+  userId?: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const oidcStateSchema = new Schema<IOidcState>(
+  {
+    stateHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    codeVerifier: {
+      type: String,
+      required: true,
+    },
+    nonce: {
+      type: String,
+      required: true,
+    },
+    redirectUri: {
+      type: String,
+      required: true,
+    },
+    mode: {
+      type: String,
+      enum: Object.values(OidcFlowMode),
+      default: OidcFlowMode.LOGIN,
+    },
+    // Set when linking a provider to an existing account
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+oidcStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IOidcState>('OidcState', oidcStateSchema);
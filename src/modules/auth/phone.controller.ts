@@ -0,0 +1,81 @@
+import { Response, NextFunction } from 'express';
+import User from '../users/user.model';
+import { hashPhoneNumber } from '../users/contacts.service';
+import { PhoneOtpPurpose } from './phoneOtp.model';
+import { sendPhoneOtp, verifyPhoneOtp } from './phoneOtp.service';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+
+export const startPhoneVerification = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { phoneNumber } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const verifiedOwner = await User.findOne({
+      phoneNumber,
+      phoneVerified: true,
+      _id: { $ne: userId },
+    }).select('_id');
+
+    if (verifiedOwner) {
+      throw new AppError('Phone number is already registered to another user', 409);
+    }
+
+    await sendPhoneOtp(phoneNumber, PhoneOtpPurpose.VERIFY, userId);
+
+    res.json({
+      success: true,
+      message: 'Verification code sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const confirmPhoneVerification = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { phoneNumber, code } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const isValid = await verifyPhoneOtp(phoneNumber, PhoneOtpPurpose.VERIFY, code, userId);
+
+    if (!isValid) {
+      throw new AppError('Invalid or expired verification code', 400);
+    }
+
+    // Whoever proves ownership takes the number over from accounts that only claimed it
+    await User.updateMany(
+      { phoneNumber, _id: { $ne: userId } },
+      { $unset: { phoneNumber: 1, phoneHash: 1 }, $set: { phoneVerified: false } }
+    );
+
+    const user = await User.findByIdAndUpdate(
+      userId,
+      { phoneNumber, phoneHash: hashPhoneNumber(phoneNumber), phoneVerified: true, phoneVerifiedAt: new Date() },
+      { new: true }
+    );
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Phone number verified successfully',
+      data: {
+        phoneNumber: user.phoneNumber,
+        phoneVerified: user.phoneVerified,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum PhoneOtpPurpose {
+  VERIFY = 'verify',
+  LOGIN = 'login',
+}
+
+// One-time SMS code. Only the latest code per number and purpose is kept.
+export interface IPhoneOtp extends Document {
+  phoneNumber: string;
+  purpose: PhoneOtpPurpose;
+  userId?: mongoose.Types.ObjectId;
+  codeHash: string;
+  attempts: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const phoneOtpSchema = new Schema<IPhoneOtp>(
+  {
+    phoneNumber: {
+      type: String,
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: Object.values(PhoneOtpPurpose),
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    codeHash: {
+      type: String,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+phoneOtpSchema.index({ phoneNumber: 1, purpose: 1 }, { unique: true });
+phoneOtpSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IPhoneOtp>('PhoneOtp', phoneOtpSchema);
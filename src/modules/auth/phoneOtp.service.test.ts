@@ -0,0 +1,106 @@
+import mongoose from 'mongoose';
+import PhoneOtp, { PhoneOtpPurpose } from './phoneOtp.model';
+import { sendPhoneOtp, verifyPhoneOtp } from './phoneOtp.service';
+import { setSmsTransport, SmsMessage } from '../../utils/sms';
+import { AccountLockedError } from '../../utils/errors';
+
+interface StoredOtp {
+  _id: mongoose.Types.ObjectId;
+  codeHash: string;
+  attempts: number;
+  expiresAt: Date;
+}
+
+// A single stored code, enough to exercise the conditional updates the service relies on
+let stored: StoredOtp | null = null;
+const sent: SmsMessage[] = [];
+
+const lastCode = (): string => sent[sent.length - 1].body.match(/\d{6}/)![0];
+
+describe('phone OTP', () => {
+  beforeAll(() => {
+    setSmsTransport({ send: async (message) => void sent.push(message) });
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.useFakeTimers({ doNotFake: ['setInterval'] });
+    stored = null;
+
+    jest.spyOn(PhoneOtp, 'findOneAndUpdate').mockImplementation(((
+      filter: { attempts?: { $lt: number }; expiresAt?: { $gt: Date } },
+      update: { $set?: Omit<StoredOtp, '_id'>; $inc?: { attempts: number } }
+    ) => {
+      if (update.$set) {
+        stored = { _id: new mongoose.Types.ObjectId(), ...update.$set };
+        return Promise.resolve(stored);
+      }
+      if (!stored || stored.attempts >= filter.attempts!.$lt || stored.expiresAt <= filter.expiresAt!.$gt) {
+        return Promise.resolve(null);
+      }
+      stored.attempts += update.$inc!.attempts;
+      return Promise.resolve({ ...stored });
+    }) as never);
+    jest.spyOn(PhoneOtp, 'deleteOne').mockImplementation(((filter: { codeHash: string }) => {
+      const matches = stored?.codeHash === filter.codeHash;
+      if (matches) {
+        stored = null;
+      }
+      return Promise.resolve({ deletedCount: matches ? 1 : 0 });
+    }) as never);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('accepts the sent code once', async () => {
+    await sendPhoneOtp('+15550000001', PhoneOtpPurpose.VERIFY);
+    const code = lastCode();
+
+    await expect(verifyPhoneOtp('+15550000001', PhoneOtpPurpose.VERIFY, code)).resolves.toBe(true);
+    await expect(verifyPhoneOtp('+15550000001', PhoneOtpPurpose.VERIFY, code)).resolves.toBe(false);
+  });
+
+  it('burns the code after five wrong guesses', async () => {
+    await sendPhoneOtp('+15550000002', PhoneOtpPurpose.VERIFY);
+    const code = lastCode();
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      await expect(verifyPhoneOtp('+15550000002', PhoneOtpPurpose.VERIFY, wrong)).resolves.toBe(false);
+    }
+
+    expect(stored).toBeNull();
+    await expect(verifyPhoneOtp('+15550000002', PhoneOtpPurpose.VERIFY, code)).resolves.toBe(false);
+  });
+
+  it('lets only one of several parallel guesses use the code', async () => {
+    await sendPhoneOtp('+15550000003', PhoneOtpPurpose.VERIFY);
+    const code = lastCode();
+
+    const results = await Promise.all([1, 2, 3].map(() => verifyPhoneOtp('+15550000003', PhoneOtpPurpose.VERIFY, code)));
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+  });
+
+  it('rejects an expired code', async () => {
+    await sendPhoneOtp('+15550000004', PhoneOtpPurpose.VERIFY);
+    jest.setSystemTime(Date.now() + 11 * 60 * 1000);
+
+    await expect(verifyPhoneOtp('+15550000004', PhoneOtpPurpose.VERIFY, lastCode())).resolves.toBe(false);
+  });
+
+  it('enforces the resend cooldown and the hourly cap', async () => {
+    await sendPhoneOtp('+15550000005', PhoneOtpPurpose.VERIFY);
+    await expect(sendPhoneOtp('+15550000005', PhoneOtpPurpose.VERIFY)).rejects.toBeInstanceOf(AccountLockedError);
+
+    for (let send = 2; send <= 5; send++) {
+      jest.setSystemTime(Date.now() + 61 * 1000);
+      await sendPhoneOtp('+15550000005', PhoneOtpPurpose.VERIFY);
+    }
+    jest.setSystemTime(Date.now() + 61 * 1000);
+
+    await expect(sendPhoneOtp('+15550000005', PhoneOtpPurpose.VERIFY)).rejects.toMatchObject({ statusCode: 429 });
+  });
+});
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+import PhoneOtp, { PhoneOtpPurpose } from './phoneOtp.model';
+import { getCounterStore } from '../../utils/counterStore';
+import { hashToken } from '../../utils/tokens';
+import { sendSms } from '../../utils/sms';
+import { AccountLockedError } from '../../utils/errors';
+
+const OTP_EXPIRES_MINUTES = parseInt(process.env.PHONE_OTP_EXPIRES_MINUTES || '10', 10);
+const OTP_MAX_VERIFY_ATTEMPTS = 5;
+const OTP_RESEND_COOLDOWN_SECONDS = parseInt(process.env.PHONE_OTP_RESEND_SECONDS || '60', 10);
+const OTP_MAX_SENDS_PER_HOUR = parseInt(process.env.PHONE_OTP_MAX_PER_HOUR || '5', 10);
+
+const hashCode = (phoneNumber: string, code: string) => hashToken(`${phoneNumber}:${code}`);
+
+// Enforce a resend cooldown and an hourly cap per number, so the endpoint
+// cannot be used to flood someone with SMS or to run up our SMS bill
+const assertCanSend = async (phoneNumber: string): Promise<void> => {
+  const store = getCounterStore();
+  const cooldownKey = `otp:cooldown:${phoneNumber}`;
+  const hourlyKey = `otp:hourly:${phoneNumber}`;
+
+  const cooldown = await store.ttl(cooldownKey);
+  if (cooldown > 0) {
+    throw new AccountLockedError(cooldown, 'Please wait before requesting another code');
+  }
+
+  const sentThisHour = await store.increment(hourlyKey, 60 * 60);
+  if (sentThisHour > OTP_MAX_SENDS_PER_HOUR) {
+    throw new AccountLockedError(await store.ttl(hourlyKey), 'Too many codes requested for this number');
+  }
+
+  await store.set(cooldownKey, 1, OTP_RESEND_COOLDOWN_SECONDS);
+};
+
+export const sendPhoneOtp = async (
+  phoneNumber: string,
+  purpose: PhoneOtpPurpose,
+  userId?: string
+): Promise<void> => {
+  await assertCanSend(phoneNumber);
+
+  const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+
+  await PhoneOtp.findOneAndUpdate(
+    { phoneNumber, purpose },
+    {
+      $set: {
+        userId,
+        codeHash: hashCode(phoneNumber, code),
+        attempts: 0,
+        expiresAt: new Date(Date.now() + OTP_EXPIRES_MINUTES * 60 * 1000),
+      },
+    },
+    { upsert: true }
+  );
+
+  await sendSms({
+    to: phoneNumber,
+    body: `Your Chert code is ${code}. It expires in ${OTP_EXPIRES_MINUTES} minutes.`,
+  });
+};
+
+// Check a code; it is deleted once used or after too many wrong guesses
+export const verifyPhoneOtp = async (
+  phoneNumber: string,
+  purpose: PhoneOtpPurpose,
+  code: string,
+  userId?: string
+): Promise<boolean> => {
+  // Claim an attempt before comparing, so parallel guesses cannot get past the cap
+  const otp = await PhoneOtp.findOneAndUpdate(
+    {
+      phoneNumber,
+      purpose,
+      ...(userId ? { userId } : {}),
+      expiresAt: { $gt: new Date() },
+      attempts: { $lt: OTP_MAX_VERIFY_ATTEMPTS },
+    },
+    { $inc: { attempts: 1 } },
+    { new: true }
+  );
+
+  if (!otp) {
+    return false;
+  }
+
+  if (otp.codeHash === hashCode(phoneNumber, code)) {
+    // Only one of several parallel correct guesses gets to use the code
+    const { deletedCount } = await PhoneOtp.deleteOne({ _id: otp._id, codeHash: otp.codeHash });
+    return deletedCount === 1;
+  }
+
+  if (otp.attempts >= OTP_MAX_VERIFY_ATTEMPTS) {
+    await PhoneOtp.deleteOne({ _id: otp._id, codeHash: otp.codeHash });
+  }
+
+  return false;
+};
@@ -0,0 +1,67 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One session per login/device. The refresh token is rotated in place on every
+// refresh, so a session document represents the whole token family.
+const sessionSchema = new Schema<ISession>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    deviceName: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Device name cannot exceed 100 characters'],
+    },
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+// Let MongoDB clean up expired sessions
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', sessionSchema);
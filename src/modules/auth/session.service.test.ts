@@ -0,0 +1,78 @@
+import mongoose from 'mongoose';
+import Session from './session.model';
+import User from '../users/user.model';
+import { createSession, rotateSession } from './session.service';
+import { hashToken } from '../../utils/tokens';
+import { AccountStatus } from '../../types';
+
+const user = new User({
+  _id: new mongoose.Types.ObjectId(),
+  username: 'alice',
+  email: 'alice@example.com',
+  password: 'hashed',
+  accountStatus: AccountStatus.ACTIVE,
+});
+
+describe('session service', () => {
+  let issued: { refreshToken: string; sessionId: string };
+
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    jest.spyOn(Session, 'create').mockResolvedValue([] as never);
+    jest.spyOn(User, 'findById').mockResolvedValue(user);
+    issued = await createSession(user, {});
+  });
+
+  it('stores only the hash of the refresh token', () => {
+    expect(Session.create).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: issued.sessionId, refreshTokenHash: hashToken(issued.refreshToken) })
+    );
+  });
+
+  it('rotates the refresh token, conditional on the current one', async () => {
+    const findOneAndUpdate = jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue({ _id: issued.sessionId });
+
+    const rotated = await rotateSession(issued.refreshToken, {});
+
+    expect(rotated.sessionId).toBe(issued.sessionId);
+    expect(rotated.refreshToken).not.toBe(issued.refreshToken);
+    const [filter, update] = findOneAndUpdate.mock.calls[0] as [Record<string, unknown>, { $set: Record<string, unknown> }];
+    expect(filter).toMatchObject({ _id: issued.sessionId, refreshTokenHash: hashToken(issued.refreshToken), revokedAt: null });
+    expect(update.$set.refreshTokenHash).toBe(hashToken(rotated.refreshToken));
+  });
+
+  it('revokes the session when a rotated-out refresh token is presented again', async () => {
+    jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(null);
+    const existing = { revokedAt: undefined as Date | undefined, revokedReason: undefined as string | undefined, save: jest.fn() };
+    jest.spyOn(Session, 'findOne').mockResolvedValue(existing);
+
+    await expect(rotateSession(issued.refreshToken, {})).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(existing.revokedAt).toBeInstanceOf(Date);
+    expect(existing.revokedReason).toBe('refresh_token_reuse');
+    expect(existing.save).toHaveBeenCalled();
+  });
+
+  it('leaves an already revoked session alone', async () => {
+    jest.spyOn(Session, 'findOneAndUpdate').mockResolvedValue(null);
+    const revokedAt = new Date(0);
+    const existing = { revokedAt, save: jest.fn() };
+    jest.spyOn(Session, 'findOne').mockResolvedValue(existing);
+
+    await expect(rotateSession(issued.refreshToken, {})).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(existing.revokedAt).toBe(revokedAt);
+    expect(existing.save).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens that are not valid refresh tokens', async () => {
+    await expect(rotateSession('not-a-token', {})).rejects.toMatchObject({ statusCode: 401 });
+  });
+
+  it('refuses to rotate for a suspended account', async () => {
+    const suspended = new User({ ...user.toObject(), accountStatus: AccountStatus.SUSPENDED });
+    jest.spyOn(User, 'findById').mockResolvedValue(suspended);
+
+    await expect(rotateSession(issued.refreshToken, {})).rejects.toMatchObject({ statusCode: 403 });
+  });
+});
@@ -0,0 +1,167 @@
+import { Request } from 'express';
+import mongoose, { FilterQuery } from 'mongoose';
+import Session, { ISession } from './session.model';
+import User, { IUser } from '../users/user.model';
+import { assertAccountActive } from '../users/account.policy';
+import {
+  generateToken,
+  generateRefreshToken,
+  verifyRefreshToken,
+  getTokenExpiry,
+} from '../../utils/jwt';
+import { hashToken } from '../../utils/tokens';
+import { AppError } from '../../utils/errors';
+import { JWTPayload } from '../../types';
+import logger from '../../utils/logger';
+
+export interface SessionContext {
+  deviceName?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+export const getSessionContext = (req: Request): SessionContext => ({
+  deviceName: req.body?.deviceName,
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+});
+
+const signSessionTokens = (user: IUser, sessionId: string) => {
+  const payload = {
+    id: user._id.toString(),
+    email: user.email,
+    username: user.username,
+    sid: sessionId,
+  };
+
+  return {
+    token: generateToken(payload),
+    refreshToken: generateRefreshToken(payload),
+  };
+};
+
+// Start a new session (one per login/device) and issue its first token pair
+export const createSession = async (user: IUser, context: SessionContext): Promise<SessionTokens> => {
+  const sessionId = new mongoose.Types.ObjectId().toString();
+  const { token, refreshToken } = signSessionTokens(user, sessionId);
+
+  await Session.create({
+    _id: sessionId,
+    userId: user._id,
+    refreshTokenHash: hashToken(refreshToken),
+    deviceName: context.deviceName,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+    lastUsedAt: new Date(),
+    expiresAt: getTokenExpiry(refreshToken),
+  });
+
+  return { token, refreshToken, sessionId };
+};
+
+// Exchange a refresh token for a new token pair. Presenting a refresh token that
+// has already been rotated out means it leaked, so the whole session is revoked.
+export const rotateSession = async (
+  refreshToken: string,
+  context: SessionContext
+): Promise<SessionTokens & { user: IUser }> => {
+  let decoded: JWTPayload;
+  try {
+    decoded = verifyRefreshToken(refreshToken);
+  } catch (error) {
+    throw new AppError('Invalid or expired refresh token', 401);
+  }
+
+  if (!decoded.sid) {
+    throw new AppError('Invalid or expired refresh token', 401);
+  }
+
+  const user = await User.findById(decoded.id);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+  assertAccountActive(user);
+
+  const { token, refreshToken: newRefreshToken } = signSessionTokens(user, decoded.sid);
+
+  // Conditional update so two concurrent refreshes cannot both succeed
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: decoded.sid,
+      userId: decoded.id,
+      refreshTokenHash: hashToken(refreshToken),
+      revokedAt: null,
+    },
+    {
+      $set: {
+        refreshTokenHash: hashToken(newRefreshToken),
+        lastUsedAt: new Date(),
+        expiresAt: getTokenExpiry(newRefreshToken),
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    }
+  );
+
+  if (!session) {
+    const existing = await Session.findOne({ _id: decoded.sid, userId: decoded.id });
+
+    if (existing && !existing.revokedAt) {
+      existing.revokedAt = new Date();
+      existing.revokedReason = 'refresh_token_reuse';
+      await existing.save();
+      logger.warn(`Refresh token reuse detected for user ${decoded.id}, session ${decoded.sid} revoked`);
+    }
+
+    throw new AppError('Session has been revoked', 401);
+  }
+
+  return { user, token, refreshToken: newRefreshToken, sessionId: decoded.sid };
+};
+
+export const revokeSession = async (sessionId: string, reason: string): Promise<boolean> => {
+  const result = await Session.updateOne(
+    { _id: sessionId, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Revoke every active session of a user, optionally keeping the current one
+export const revokeUserSessions = async (
+  userId: string,
+  reason: string,
+  exceptSessionId?: string
+): Promise<string[]> => {
+  const filter: FilterQuery<ISession> = { userId, revokedAt: null };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+
+  const sessions = await Session.find(filter).select('_id');
+  const sessionIds = sessions.map((session) => session._id.toString());
+
+  if (sessionIds.length > 0) {
+    await Session.updateMany(
+      { _id: { $in: sessionIds } },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+  }
+
+  return sessionIds;
+};
+
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  const session = await Session.exists({
+    _id: sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+  return !!session;
+};
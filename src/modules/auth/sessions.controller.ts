@@ -0,0 +1,101 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Session from './session.model';
+import { revokeSession, revokeUserSessions } from './session.service';
+import { disconnectSessionSockets } from '../../sockets/socket.handler';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+
+export const getSessions = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const sessions = await Session.find({
+      userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    }).sort({ lastUsedAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map((session) => ({
+          id: session._id,
+          deviceName: session.deviceName,
+          ipAddress: session.ipAddress,
+          userAgent: session.userAgent,
+          createdAt: session.createdAt,
+          lastUsedAt: session.lastUsedAt,
+          isCurrent: session._id.toString() === req.user?.sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeSessionById = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    if (!mongoose.isValidObjectId(id)) {
+      throw new AppError('Session not found', 404);
+    }
+
+    const session = await Session.findOne({ _id: id, userId, revokedAt: null });
+
+    if (!session) {
+      throw new AppError('Session not found', 404);
+    }
+
+    await revokeSession(id, 'revoked_by_user');
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    if (io) {
+      disconnectSessionSockets(io, [id]);
+    }
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeOtherSessions = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const revokedIds = await revokeUserSessions(userId, 'revoked_by_user', req.user?.sessionId);
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    if (io) {
+      disconnectSessionSockets(io, revokedIds);
+    }
+
+    res.json({
+      success: true,
+      message: 'Signed out of all other sessions',
+      data: { revokedCount: revokedIds.length },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,53 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum AuthTokenType {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+}
+
+// Single-use tokens sent to users out of band (e.g. by email). Only a hash of
+// the token is stored.
+export interface IAuthToken extends Document {
+  userId: mongoose.Types.ObjectId;
+  type: AuthTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const authTokenSchema = new Schema<IAuthToken>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(AuthTokenType),
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+authTokenSchema.index({ userId: 1, type: 1 });
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAuthToken>('AuthToken', authTokenSchema);
@@ -0,0 +1,36 @@
+import AuthToken, { AuthTokenType } from './token.model';
+import { generateRandomToken, hashToken } from '../../utils/tokens';
+
+// Issue a fresh token of the given type; older unused tokens of that type stop working
+export const issueAuthToken = async (
+  userId: string,
+  type: AuthTokenType,
+  ttlMinutes: number
+): Promise<string> => {
+  await AuthToken.deleteMany({ userId, type, usedAt: null });
+
+  const token = generateRandomToken();
+  await AuthToken.create({
+    userId,
+    type,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+  });
+
+  return token;
+};
+
+// Mark a token as used and return its user ID, or null if it is unknown, expired or already used
+export const consumeAuthToken = async (token: string, type: AuthTokenType): Promise<string | null> => {
+  const authToken = await AuthToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      type,
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { usedAt: new Date() } }
+  );
+
+  return authToken ? authToken.userId.toString() : null;
+};
@@ -0,0 +1,200 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Chat, { GroupRole } from './chat.model';
+import ChatMember from './chatMember.model';
+import { addJoinedParticipant } from './membership.service';
+import { recordChatRemoval } from './chatList.service';
+import { getMemberRole, isParticipant } from './permissions.policy';
+import { formatChatResponse, populateChatUsers } from './chatFormat.service';
+import User from '../users/user.model';
+import { loadPrivacyViewer, redactUser, PUBLIC_USER_FIELDS } from '../users/privacy.policy';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+import { escapeRegex } from '../../utils/regex';
+
+const MAX_PAGE_SIZE = 100;
+
+// Public channels and discoverable groups, largest first
+export const discoverChats = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { q, type } = req.query as { q?: string; type?: string };
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, MAX_PAGE_SIZE);
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const match: Record<string, unknown> = { isGroup: true, isDiscoverable: true };
+    if (type === 'channel') match.isChannel = true;
+    if (type === 'group') match.isChannel = { $ne: true };
+    if (q) match.name = { $regex: escapeRegex(q.trim()), $options: 'i' };
+
+    const [chats, total] = await Promise.all([
+      Chat.aggregate([
+        { $match: match },
+        {
+          $project: {
+            name: 1,
+            description: 1,
+            avatar: 1,
+            isChannel: 1,
+            memberCount: { $size: '$participants' },
+            isParticipant: { $in: [new mongoose.Types.ObjectId(userId), '$participants'] },
+          },
+        },
+        { $sort: { memberCount: -1, _id: 1 } },
+        { $skip: (page - 1) * limit },
+        { $limit: limit },
+      ]),
+      Chat.countDocuments(match),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        chats,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const subscribe = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    // Private channels can only be joined through an invite link
+    const chat = mongoose.isValidObjectId(id)
+      ? await Chat.findOne({ _id: id, isChannel: true, isDiscoverable: true })
+      : null;
+
+    if (!chat) {
+      throw new AppError('Channel not found', 404);
+    }
+
+    if (isParticipant(chat, userId)) {
+      throw new AppError('You are already subscribed to this channel', 409);
+    }
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    const updatedChat = await addJoinedParticipant(chat._id.toString(), userId, io);
+    if (!updatedChat) {
+      throw new AppError('Channel not found', 404);
+    }
+
+    await populateChatUsers(updatedChat);
+
+    const formattedChat = await formatChatResponse(updatedChat, userId);
+
+    res.json({
+      success: true,
+      message: 'Subscribed to channel successfully',
+      data: { chat: formattedChat },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unsubscribe = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await Chat.findOne({
+      _id: id,
+      participants: userId,
+      isChannel: true,
+    });
+
+    if (!chat) {
+      throw new AppError('Channel not found', 404);
+    }
+
+    if (getMemberRole(chat, userId) === GroupRole.OWNER) {
+      throw new AppError('Transfer ownership or delete the channel before unsubscribing', 400);
+    }
+
+    await Chat.updateOne({ _id: chat._id }, { $pull: { participants: userId, admins: { userId } } });
+    await ChatMember.deleteOne({ chatId: chat._id, userId });
+    await recordChatRemoval(chat._id.toString(), [userId]);
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    io?.in(`user:${userId}`).socketsLeave(`chat:${chat._id}`);
+
+    res.json({
+      success: true,
+      message: 'Unsubscribed from channel successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Subscriber list, for the channel's owner and admins only
+export const getSubscribers = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, MAX_PAGE_SIZE);
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await Chat.findOne({
+      _id: id,
+      participants: userId,
+      isChannel: true,
+    });
+
+    if (!chat) {
+      throw new AppError('Channel not found', 404);
+    }
+
+    if (getMemberRole(chat, userId) === GroupRole.MEMBER) {
+      throw new AppError('Only channel admins can see subscribers', 403);
+    }
+
+    const pageIds = chat.participants.slice((page - 1) * limit, page * limit);
+    const [users, viewer] = await Promise.all([
+      User.find({ _id: { $in: pageIds } }).select(PUBLIC_USER_FIELDS),
+      loadPrivacyViewer(userId, pageIds.map((participantId) => participantId.toString())),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        subscribers: users.map((user) => redactUser(user, viewer)),
+        pagination: {
+          page,
+          limit,
+          total: chat.participants.length,
+          pages: Math.ceil(chat.participants.length / limit),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
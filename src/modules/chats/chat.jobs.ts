@@ -0,0 +1,29 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { expireJoinRequests } from './joinRequest.service';
+import logger from '../../utils/logger';
+
+const JOB_INTERVAL_MS = 60 * 1000;
+
+// Periodically expire join requests that nobody reviewed in time
+export const startChatJobs = (io: SocketIOServer): NodeJS.Timeout => {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      await expireJoinRequests(io);
+    } catch (error) {
+      logger.error('Chat jobs failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, JOB_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
@@ -1,13 +1,45 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { avatarSchema } from '../../utils/avatar';
+import { Avatar } from '../../types';
+
+export enum GroupRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+}
+
+// What a group member may do. The owner can do everything, admins what they were
+// granted, and regular members what the group allows all members.
+export enum GroupPermission {
+  EDIT_INFO = 'edit_info',
+  ADD_MEMBERS = 'add_members',
+  REMOVE_MEMBERS = 'remove_members',
+  DELETE_MESSAGES = 'delete_messages',
+  PIN_MESSAGES = 'pin_messages',
+  MANAGE_INVITES = 'manage_invites',
+}
+
+export interface IGroupAdmin {
+  userId: mongoose.Types.ObjectId;
+  permissions: GroupPermission[];
+  promotedBy?: mongoose.Types.ObjectId;
+  promotedAt: Date;
+}
 
 export interface IChat extends Document {
   isGroup: boolean;
+  isChannel: boolean; // A group where only the owner and admins post
   name?: string;
   description?: string;
-  avatar?: string;
+  avatar?: Avatar;
   participants: mongoose.Types.ObjectId[];
-  admin?: mongoose.Types.ObjectId;
+  owner?: mongoose.Types.ObjectId; // Groups only
+  admins: IGroupAdmin[];
+  memberPermissions: GroupPermission[];
+  pinnedMessages: mongoose.Types.ObjectId[];
+  isDiscoverable: boolean; // Groups: anyone may ask to join. Channels: anyone may subscribe
   lastMessage?: mongoose.Types.ObjectId;
+  lastActivityAt: Date; // When the chat was created or last got a message; orders the chat list
   createdAt: Date;
   updatedAt: Date;
 }
@@ -18,6 +50,10 @@ const chatSchema = new Schema<IChat>(
       type: Boolean,
       default: false,
     },
+    isChannel: {
+      type: Boolean,
+      default: false,
+    },
     name: {
       type: String,
       trim: true,
@@ -29,8 +65,7 @@ const chatSchema = new Schema<IChat>(
       maxlength: [200, 'Description cannot exceed 200 characters'],
     },
     avatar: {
-      type: String,
-      default: '',
+      type: avatarSchema,
     },
     participants: [
       {
@@ -39,14 +74,54 @@ const chatSchema = new Schema<IChat>(
         required: true,
       },
     ],
-    admin: {
+    owner: {
       type: Schema.Types.ObjectId,
       ref: 'User',
     },
+    admins: [
+      {
+        _id: false,
+        userId: {
+          type: Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+        permissions: {
+          type: [{ type: String, enum: Object.values(GroupPermission) }],
+          default: [],
+        },
+        promotedBy: {
+          type: Schema.Types.ObjectId,
+          ref: 'User',
+        },
+        promotedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    memberPermissions: {
+      type: [{ type: String, enum: Object.values(GroupPermission) }],
+      default: [],
+    },
+    pinnedMessages: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Message',
+      },
+    ],
+    isDiscoverable: {
+      type: Boolean,
+      default: false,
+    },
     lastMessage: {
       type: Schema.Types.ObjectId,
       ref: 'Message',
     },
+    lastActivityAt: {
+      type: Date,
+      default: Date.now,
+    },
   },
   {
     timestamps: true,
@@ -54,7 +129,10 @@ const chatSchema = new Schema<IChat>(
 );
 
 chatSchema.index({ participants: 1 });
+chatSchema.index({ participants: 1, lastActivityAt: -1, _id: -1 });
+chatSchema.index({ participants: 1, updatedAt: 1 });
 chatSchema.index({ isGroup: 1, createdAt: -1 });
+chatSchema.index({ isDiscoverable: 1, name: 1 });
 
 export default mongoose.model<IChat>('Chat', chatSchema);
 
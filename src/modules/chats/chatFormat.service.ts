@@ -0,0 +1,89 @@
+import mongoose from 'mongoose';
+import Chat, { IChat, GroupPermission, GroupRole } from './chat.model';
+import { getMemberPermissions, getMemberRole } from './permissions.policy';
+import { IUserPrivacy } from '../users/user.model';
+import { loadPrivacyViewer, redactUser, PrivacyViewer, PUBLIC_USER_FIELDS } from '../users/privacy.policy';
+
+// A chat's users, as IDs or populated with PUBLIC_USER_FIELDS
+interface PopulatedChatUser {
+  _id: mongoose.Types.ObjectId;
+  username: string;
+  privacy?: Partial<IUserPrivacy>;
+}
+type ChatUserRef = mongoose.Types.ObjectId | PopulatedChatUser;
+
+// A chat as sent to clients
+type FormattedChat = Record<string, unknown> & {
+  _id: mongoose.Types.ObjectId;
+  isGroup: boolean;
+  isChannel?: boolean;
+  participants?: ChatUserRef[];
+  owner?: ChatUserRef;
+  lastMessage?: unknown;
+  subscriberCount?: number;
+  membership?: { role: GroupRole | null; permissions: GroupPermission[] };
+};
+
+const isPopulatedUser = (user?: ChatUserRef | null): user is PopulatedChatUser => !!user && 'username' in user;
+
+const chatUserId = (user: ChatUserRef): string => (isPopulatedUser(user) ? user._id : user).toString();
+
+// Helper function to format chat response - filter out current user from participants in one-to-one chats
+// and hide the profile details each participant keeps private from the current user
+const formatChat = (chat: IChat, currentUserId: string, viewer: PrivacyViewer): FormattedChat => {
+  const chatObj = chat.toObject() as FormattedChat;
+
+  // For one-to-one chats, only show the other participant (not the current user)
+  if (!chatObj.isGroup && chatObj.participants) {
+    chatObj.participants = chatObj.participants.filter((participant) => chatUserId(participant) !== currentUserId);
+  }
+
+  if (chatObj.participants) {
+    chatObj.participants = chatObj.participants.map((participant) =>
+      isPopulatedUser(participant) ? redactUser(participant, viewer) : participant
+    );
+  }
+  if (isPopulatedUser(chatObj.owner)) {
+    chatObj.owner = redactUser(chatObj.owner, viewer);
+  }
+
+  // Channel subscribers are never listed, only counted
+  if (chatObj.isChannel) {
+    chatObj.subscriberCount = chatObj.participants?.length || 0;
+    delete chatObj.participants;
+  }
+
+  // Let the client know what the current user may do in a group
+  if (chatObj.isGroup) {
+    chatObj.membership = {
+      role: getMemberRole(chat, currentUserId),
+      permissions: getMemberPermissions(chat, currentUserId),
+    };
+  }
+  
+  return chatObj;
+};
+
+// Format several chats with a single privacy lookup
+export const formatChatsResponse = async (chats: IChat[], currentUserId: string) => {
+  const userIds = chats.flatMap((chat) =>
+    [...(chat.isChannel ? [] : chat.participants), chat.owner]
+      .filter((user): user is mongoose.Types.ObjectId => !!user)
+      .map(chatUserId)
+  );
+  const viewer = await loadPrivacyViewer(currentUserId, userIds);
+  return chats.map((chat) => formatChat(chat, currentUserId, viewer));
+};
+
+export const formatChatResponse = async (chat: IChat, currentUserId: string) => {
+  const [formattedChat] = await formatChatsResponse([chat], currentUserId);
+  return formattedChat;
+};
+
+// Populate the users shown with chats. Channel subscribers are never listed, so they are
+// left as IDs rather than loading thousands of profiles.
+export const populateChatUsers = async (chats: IChat | IChat[]): Promise<void> => {
+  const list = Array.isArray(chats) ? chats : [chats];
+  await Chat.populate(list.filter((chat) => !chat.isChannel), { path: 'participants', select: PUBLIC_USER_FIELDS });
+  await Chat.populate(list, { path: 'owner', select: PUBLIC_USER_FIELDS });
+};
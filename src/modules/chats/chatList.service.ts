@@ -0,0 +1,236 @@
+import mongoose from 'mongoose';
+import Chat, { IChat } from './chat.model';
+import ChatMember, { IChatMember } from './chatMember.model';
+import ChatRemoval, { CHAT_REMOVAL_RETENTION_DAYS } from './chatRemoval.model';
+import { getUnreadCounts } from './chatMember.service';
+import { IMessage } from '../messages/message.model';
+import User, { IUser } from '../users/user.model';
+import { AppError } from '../../utils/errors';
+import { escapeRegex } from '../../utils/regex';
+import { MessageType } from '../../types';
+import logger from '../../utils/logger';
+
+const SNIPPET_LENGTH = 100;
+
+export type ChatListType = 'group' | 'channel' | 'direct';
+
+export interface ChatListOptions {
+  cursor?: string;
+  limit: number;
+  type?: ChatListType;
+  q?: string;
+  archived: boolean;
+  pinned?: boolean;
+  unread?: boolean;
+}
+
+export interface ChatListPage {
+  chats: IChat[];
+  members: IChatMember[];
+  nextCursor: string | null;
+}
+
+export interface ChatChanges {
+  chats: IChat[];
+  members: IChatMember[];
+  removedChatIds: string[];
+  syncedAt: Date;
+}
+
+// Chats are ordered by last activity, newest first, with the ID breaking ties. The cursor is the
+// last chat returned.
+interface ChatListCursor {
+  lastActivityAt: Date;
+  id: string;
+}
+
+// Only what the chat list shows of the last message
+const LAST_MESSAGE_PREVIEW = {
+  path: 'lastMessage',
+  select: 'senderId content type fileName createdAt',
+  populate: { path: 'senderId', select: 'username displayName' },
+};
+
+const encodeCursor = (cursor: ChatListCursor): string =>
+  Buffer.from(JSON.stringify({ a: cursor.lastActivityAt.getTime(), i: cursor.id })).toString('base64url');
+
+const decodeCursor = (value: string): ChatListCursor => {
+  try {
+    const { a, i } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (Number.isInteger(a) && mongoose.isValidObjectId(i)) {
+      return { lastActivityAt: new Date(a), id: i };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new AppError('Invalid cursor', 400);
+};
+
+// The last message as loaded with LAST_MESSAGE_PREVIEW
+export type PreviewedMessage = Pick<IMessage, '_id' | 'type' | 'content' | 'fileName' | 'createdAt'> & {
+  senderId: mongoose.Types.ObjectId | Pick<IUser, '_id' | 'username' | 'displayName'> | null;
+};
+
+export const formatMessagePreview = (message?: PreviewedMessage | null) => {
+  if (!message?.type) {
+    return null;
+  }
+
+  const sender = message.senderId && 'username' in message.senderId ? message.senderId : null;
+  return {
+    _id: message._id,
+    senderId: sender?._id ?? message.senderId,
+    senderName: sender ? sender.displayName || sender.username : null,
+    type: message.type,
+    snippet: message.type === MessageType.TEXT ? (message.content || '').slice(0, SNIPPET_LENGTH) : message.fileName || '',
+    createdAt: message.createdAt,
+  };
+};
+
+// Helper function to match chats of one kind
+const typeFilter = (type: ChatListType): Record<string, unknown> => {
+  switch (type) {
+    case 'channel':
+      return { isChannel: true };
+    case 'group':
+      return { isGroup: true, isChannel: { $ne: true } };
+    default:
+      return { isGroup: false };
+  }
+};
+
+// Helper function to match groups by name and one-to-one chats by the other person's name
+const nameFilter = async (userId: string, q: string): Promise<Record<string, unknown>> => {
+  const pattern = new RegExp(escapeRegex(q.trim()), 'i');
+
+  const directChats = await Chat.find({ participants: userId, isGroup: false }).select('participants');
+  const partnerIds = directChats
+    .flatMap((chat) => chat.participants.map((participant) => participant.toString()))
+    .filter((id) => id !== userId);
+  const partners = await User.find({
+    _id: { $in: partnerIds },
+    $or: [{ username: pattern }, { displayName: pattern }],
+  }).select('_id');
+
+  return {
+    $or: [{ name: pattern }, { isGroup: false, participants: { $in: partners.map((partner) => partner._id) } }],
+  };
+};
+
+// Helper function to find chats with unread messages or the user's unread mark
+const unreadChatIds = async (userId: string, members: IChatMember[]): Promise<string[]> => {
+  const chats = await Chat.find({ participants: userId }).select('_id');
+  const counts = await getUnreadCounts(userId, chats.map((chat) => chat._id.toString()));
+  const marked = members.filter((member) => member.markedUnread).map((member) => member.chatId.toString());
+
+  return [...new Set([...marked, ...[...counts].filter(([, count]) => count.unreadCount > 0).map(([chatId]) => chatId)])];
+};
+
+// One page of the user's chat list. Pinned chats all come on the first page, in the user's
+// order; the rest are paged by last activity.
+export const listChats = async (userId: string, options: ChatListOptions): Promise<ChatListPage> => {
+  const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+  const members = await ChatMember.find({ userId });
+  const idsWhere = (test: (member: IChatMember) => boolean) =>
+    members.filter(test).map((member) => member.chatId);
+  const pinnedIds = idsWhere((member) => member.pinOrder != null);
+
+  // Archived chats are left out unless asked for
+  const filters: Record<string, unknown>[] = [
+    { participants: userId },
+    { _id: { [options.archived ? '$in' : '$nin']: idsWhere((member) => member.archived) } },
+  ];
+  if (options.type) {
+    filters.push(typeFilter(options.type));
+  }
+  if (options.q) {
+    filters.push(await nameFilter(userId, options.q));
+  }
+  if (options.unread !== undefined) {
+    filters.push({ _id: { [options.unread ? '$in' : '$nin']: await unreadChatIds(userId, members) } });
+  }
+
+  let pinned: IChat[] = [];
+  if (options.pinned !== false && !cursor) {
+    const pinRank = new Map(members.map((member) => [member.chatId.toString(), member.pinOrder ?? Infinity]));
+    pinned = await Chat.find({ $and: [...filters, { _id: { $in: pinnedIds } }] }).populate(LAST_MESSAGE_PREVIEW);
+    pinned.sort((a, b) => pinRank.get(a._id.toString())! - pinRank.get(b._id.toString())!);
+  }
+  if (options.pinned === true) {
+    return { chats: pinned, members, nextCursor: null };
+  }
+
+  const pageFilters = [...filters, { _id: { $nin: pinnedIds } }];
+  if (cursor) {
+    pageFilters.push({
+      $or: [
+        { lastActivityAt: { $lt: cursor.lastActivityAt } },
+        { lastActivityAt: cursor.lastActivityAt, _id: { $lt: new mongoose.Types.ObjectId(cursor.id) } },
+      ],
+    });
+  }
+
+  // Fetch one extra chat to know whether there is another page
+  const results = await Chat.find({ $and: pageFilters })
+    .sort({ lastActivityAt: -1, _id: -1 })
+    .limit(options.limit + 1)
+    .populate(LAST_MESSAGE_PREVIEW);
+  const page = results.slice(0, options.limit);
+  const last = page[page.length - 1];
+
+  return {
+    chats: [...pinned, ...page],
+    members,
+    nextCursor:
+      results.length > options.limit ? encodeCursor({ lastActivityAt: last.lastActivityAt, id: last._id.toString() }) : null,
+  };
+};
+
+// Chats that changed for the user since a point in time: new messages, edits, membership and
+// the user's own read state and settings, plus the chats they lost access to
+export const listChatChanges = async (userId: string, since: Date): Promise<ChatChanges> => {
+  if (since.getTime() < Date.now() - CHAT_REMOVAL_RETENTION_DAYS * 24 * 60 * 60 * 1000) {
+    throw new AppError(`Changes are only kept for ${CHAT_REMOVAL_RETENTION_DAYS} days; reload the chat list`, 410);
+  }
+
+  // Taken before reading so nothing changed in between is missed next time
+  const syncedAt = new Date();
+
+  const changedMembers = await ChatMember.find({ userId, updatedAt: { $gt: since } }).select('chatId');
+  const [chats, removals] = await Promise.all([
+    Chat.find({
+      participants: userId,
+      $or: [{ updatedAt: { $gt: since } }, { _id: { $in: changedMembers.map((member) => member.chatId) } }],
+    })
+      .sort({ lastActivityAt: -1, _id: -1 })
+      .populate(LAST_MESSAGE_PREVIEW),
+    ChatRemoval.find({ userIds: userId, createdAt: { $gt: since } }).select('chatId'),
+  ]);
+  const members = await ChatMember.find({ userId, chatId: { $in: chats.map((chat) => chat._id) } });
+
+  // A chat the user left and rejoined is a change, not a removal
+  const currentIds = new Set(chats.map((chat) => chat._id.toString()));
+  const removedChatIds = [...new Set(removals.map((removal) => removal.chatId.toString()))].filter(
+    (chatId) => !currentIds.has(chatId)
+  );
+
+  return { chats, members, removedChatIds, syncedAt };
+};
+
+// Record that users lost access to a chat, for clients syncing their chat list
+export const recordChatRemoval = async (chatId: string, userIds: (string | mongoose.Types.ObjectId)[]): Promise<void> => {
+  if (userIds.length > 0) {
+    await ChatRemoval.create({ chatId, userIds });
+  }
+};
+
+// Chats created before the chat list was ordered by activity start from their last update
+export const backfillChatActivity = async (): Promise<void> => {
+  const result = await Chat.collection.updateMany({ lastActivityAt: { $exists: false } }, [
+    { $set: { lastActivityAt: '$updatedAt' } },
+  ]);
+
+  if (result.modifiedCount > 0) {
+    logger.info(`Set the last activity of ${result.modifiedCount} chat(s)`);
+  }
+};
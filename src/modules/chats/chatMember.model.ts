@@ -0,0 +1,66 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One user's own state for a chat they are in: how far they have read and their settings.
+// Only created once the user reads the chat or changes a setting.
+export interface IChatMember extends Document {
+  chatId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  muted: boolean;
+  mutedUntil?: Date; // Muted indefinitely when unset
+  pinOrder?: number; // Set while the chat is pinned; lower comes first
+  archived: boolean;
+  keepArchived: boolean; // Stay archived when new messages arrive
+  markedUnread: boolean;
+  lastReadMessageId?: mongoose.Types.ObjectId; // Messages after this one are unread
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const chatMemberSchema = new Schema<IChatMember>(
+  {
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    muted: {
+      type: Boolean,
+      default: false,
+    },
+    mutedUntil: {
+      type: Date,
+    },
+    pinOrder: {
+      type: Number,
+    },
+    archived: {
+      type: Boolean,
+      default: false,
+    },
+    keepArchived: {
+      type: Boolean,
+      default: false,
+    },
+    markedUnread: {
+      type: Boolean,
+      default: false,
+    },
+    lastReadMessageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+chatMemberSchema.index({ chatId: 1, userId: 1 }, { unique: true });
+chatMemberSchema.index({ userId: 1 });
+
+export default mongoose.model<IChatMember>('ChatMember', chatMemberSchema);
@@ -0,0 +1,192 @@
+import mongoose from 'mongoose';
+import Chat, { IChat } from './chat.model';
+import ChatMember, { IChatMember } from './chatMember.model';
+import Message from '../messages/message.model';
+
+export interface ChatPreferences {
+  muted: boolean;
+  mutedUntil?: Date;
+  pinned: boolean;
+  pinOrder?: number;
+  archived: boolean;
+  keepArchived: boolean;
+  markedUnread: boolean;
+}
+
+// A mute with an end date lapses on its own
+export const isMuted = (member?: Pick<IChatMember, 'muted' | 'mutedUntil'> | null): boolean =>
+  !!member?.muted && (!member.mutedUntil || member.mutedUntil > new Date());
+
+export const formatPreferences = (member?: IChatMember | null): ChatPreferences => ({
+  muted: isMuted(member),
+  mutedUntil: isMuted(member) ? member?.mutedUntil : undefined,
+  pinned: member?.pinOrder !== undefined && member?.pinOrder !== null,
+  pinOrder: member?.pinOrder ?? undefined,
+  archived: !!member?.archived,
+  keepArchived: !!member?.keepArchived,
+  markedUnread: !!member?.markedUnread,
+});
+
+// The user's settings for the given chats, defaults included
+export const getChatPreferences = async (
+  userId: string,
+  chatIds: string[]
+): Promise<Map<string, ChatPreferences>> => {
+  const members = await ChatMember.find({ userId, chatId: { $in: chatIds } });
+  const byChat = new Map(members.map((member) => [member.chatId.toString(), member]));
+  return new Map(chatIds.map((chatId) => [chatId, formatPreferences(byChat.get(chatId))]));
+};
+
+export const updateChatPreferences = async (
+  chatId: string,
+  userId: string,
+  update: Record<string, unknown>
+): Promise<ChatPreferences> => {
+  const member = await ChatMember.findOneAndUpdate({ chatId, userId }, update, {
+    new: true,
+    upsert: true,
+    runValidators: true,
+  });
+  return formatPreferences(member);
+};
+
+// A new message brings an archived chat back to the chat list, unless the member asked to
+// keep it archived
+export const unarchiveOnNewMessage = async (chatId: string, senderId: string): Promise<void> => {
+  await ChatMember.updateMany(
+    { chatId, userId: { $ne: senderId }, archived: true, keepArchived: false },
+    { archived: false }
+  );
+};
+
+// Reading a chat clears a manual unread mark
+export const clearMarkedUnread = async (chatId: string, userId: string): Promise<void> => {
+  await ChatMember.updateOne({ chatId, userId, markedUnread: true }, { markedUnread: false });
+};
+
+export interface UnreadCounts {
+  unreadCount: number;
+  unreadMentionCount: number;
+}
+
+// Move the user's read pointer up to the newest of the given messages, or to the chat's latest
+// message. The pointer never moves backwards. Returns where it ends up.
+export const markChatRead = async (
+  chatId: string,
+  userId: string,
+  messageIds?: string[]
+): Promise<mongoose.Types.ObjectId | undefined> => {
+  const latest = await Message.findOne(messageIds ? { _id: { $in: messageIds }, chatId } : { chatId })
+    .sort({ _id: -1 })
+    .select('_id');
+
+  if (!latest) {
+    await clearMarkedUnread(chatId, userId);
+    return undefined;
+  }
+
+  const member = await ChatMember.findOneAndUpdate(
+    { chatId, userId },
+    [{ $set: { lastReadMessageId: { $max: ['$lastReadMessageId', latest._id] }, markedUnread: false } }],
+    { new: true, upsert: true }
+  );
+  return member?.lastReadMessageId;
+};
+
+// Start new members at the chat's latest message, so its history does not show up as unread
+export const initializeReadPointers = async (chatId: string, userIds: string[]): Promise<void> => {
+  const latest = await Message.findOne({ chatId }).sort({ _id: -1 }).select('_id');
+  if (!latest || userIds.length === 0) {
+    return;
+  }
+
+  await ChatMember.bulkWrite(
+    userIds.map((userId) => ({
+      updateOne: {
+        filter: { chatId: new mongoose.Types.ObjectId(chatId), userId: new mongoose.Types.ObjectId(userId) },
+        update: { $set: { lastReadMessageId: latest._id } },
+        upsert: true,
+      },
+    }))
+  );
+};
+
+// Unread and unread-mention counts for the user's chats, counting only other people's messages
+export const getUnreadCounts = async (userId: string, chatIds: string[]): Promise<Map<string, UnreadCounts>> => {
+  const counts = new Map<string, UnreadCounts>(
+    chatIds.map((chatId) => [chatId, { unreadCount: 0, unreadMentionCount: 0 }])
+  );
+  if (chatIds.length === 0) {
+    return counts;
+  }
+
+  const viewerId = new mongoose.Types.ObjectId(userId);
+  const members = await ChatMember.find({ userId, chatId: { $in: chatIds } }).select('chatId lastReadMessageId');
+  const pointers = new Map(members.map((member) => [member.chatId.toString(), member.lastReadMessageId]));
+
+  // Chats not read since read pointers were introduced fall back to the old per-message receipts
+  const unreadInChat = chatIds.map((chatId) => {
+    const pointer = pointers.get(chatId);
+    const id = new mongoose.Types.ObjectId(chatId);
+    return pointer ? { chatId: id, _id: { $gt: pointer } } : { chatId: id, readBy: { $ne: viewerId } };
+  });
+
+  const results = await Message.aggregate([
+    { $match: { senderId: { $ne: viewerId }, $or: unreadInChat } },
+    {
+      $group: {
+        _id: '$chatId',
+        unreadCount: { $sum: 1 },
+        unreadMentionCount: { $sum: { $cond: [{ $in: [viewerId, { $ifNull: ['$mentions', []] }] }, 1, 0] } },
+      },
+    },
+  ]);
+
+  for (const result of results) {
+    counts.set(result._id.toString(), {
+      unreadCount: result.unreadCount,
+      unreadMentionCount: result.unreadMentionCount,
+    });
+  }
+  return counts;
+};
+
+// Totals for the app badge. Muted chats only add their mentions.
+export const getTotalUnread = async (userId: string) => {
+  const chats = await Chat.find({ participants: userId }).select('_id');
+  const chatIds = chats.map((chat) => chat._id.toString());
+
+  const [counts, members] = await Promise.all([
+    getUnreadCounts(userId, chatIds),
+    ChatMember.find({ userId, chatId: { $in: chatIds } }).select('chatId muted mutedUntil markedUnread'),
+  ]);
+  const byChat = new Map(members.map((member) => [member.chatId.toString(), member]));
+
+  const totals = { unreadCount: 0, unreadMentionCount: 0, unreadChatCount: 0 };
+  for (const [chatId, count] of counts) {
+    const member = byChat.get(chatId);
+    totals.unreadMentionCount += count.unreadMentionCount;
+    if (isMuted(member)) {
+      continue;
+    }
+    totals.unreadCount += count.unreadCount;
+    if (count.unreadCount > 0 || member?.markedUnread) {
+      totals.unreadChatCount += 1;
+    }
+  }
+  return totals;
+};
+
+// How far the other members of a chat have read. Channel subscribers stay anonymous.
+export const getReadPointers = async (chat: IChat, userId: string) => {
+  if (chat.isChannel) {
+    return [];
+  }
+
+  const members = await ChatMember.find({
+    chatId: chat._id,
+    userId: { $ne: userId },
+    lastReadMessageId: { $exists: true },
+  }).select('userId lastReadMessageId');
+  return members.map((member) => ({ userId: member.userId, lastReadMessageId: member.lastReadMessageId }));
+};
@@ -0,0 +1,212 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Chat from './chat.model';
+import ChatMember from './chatMember.model';
+import { ChatPreferences, updateChatPreferences } from './chatMember.service';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+
+const MAX_PINNED_CHATS = 10;
+
+// Helper function to make sure the user is in the chat whose settings they change
+const assertChatMember = async (chatId: string, userId: string): Promise<void> => {
+  const chat = await Chat.exists({ _id: chatId, participants: userId });
+  if (!chat) {
+    throw new AppError('Chat not found', 404);
+  }
+};
+
+// Helper function to tell the user's sockets that a chat's settings changed
+const emitPreferencesUpdated = (req: AuthRequest, userId: string, chatId: string, preferences: ChatPreferences) => {
+  const io = req.app.get('io') as SocketIOServer | undefined;
+  io?.to(`user:${userId}`).emit('chat_preferences_updated', { chatId, preferences });
+};
+
+// Helper function to apply a settings change and sync it to the user's other devices
+const savePreferences = async (
+  req: AuthRequest,
+  res: Response,
+  userId: string,
+  update: Record<string, unknown>,
+  message: string
+): Promise<void> => {
+  const { id } = req.params;
+
+  await assertChatMember(id, userId);
+  const preferences = await updateChatPreferences(id, userId, update);
+  emitPreferencesUpdated(req, userId, id, preferences);
+
+  res.json({
+    success: true,
+    message,
+    data: { preferences },
+  });
+};
+
+export const muteChat = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { until } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const update = until
+      ? { $set: { muted: true, mutedUntil: new Date(until) } }
+      : { $set: { muted: true }, $unset: { mutedUntil: 1 } };
+
+    await savePreferences(req, res, userId, update, 'Chat muted successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unmuteChat = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    await savePreferences(req, res, userId, { $set: { muted: false }, $unset: { mutedUntil: 1 } }, 'Chat unmuted successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const pinChat = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const pinned = await ChatMember.find({ userId, pinOrder: { $ne: null } }).sort({ pinOrder: -1 });
+    if (pinned.some((member) => member.chatId.toString() === id)) {
+      throw new AppError('Chat is already pinned', 409);
+    }
+    if (pinned.length >= MAX_PINNED_CHATS) {
+      throw new AppError(`You can pin at most ${MAX_PINNED_CHATS} chats`, 400);
+    }
+
+    // Newly pinned chats go below the ones already pinned
+    const pinOrder = pinned.length > 0 ? pinned[0].pinOrder! + 1 : 0;
+    await savePreferences(req, res, userId, { $set: { pinOrder } }, 'Chat pinned successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unpinChat = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    await savePreferences(req, res, userId, { $unset: { pinOrder: 1 } }, 'Chat unpinned successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const reorderPinnedChats = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { chatIds } = req.body as { chatIds: string[] };
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const pinned = await ChatMember.find({ userId, pinOrder: { $ne: null } }).select('chatId');
+    const pinnedIds = new Set(pinned.map((member) => member.chatId.toString()));
+
+    if (new Set(chatIds).size !== chatIds.length || chatIds.length !== pinnedIds.size || !chatIds.every((chatId) => pinnedIds.has(chatId))) {
+      throw new AppError('The new order must list every pinned chat exactly once', 400);
+    }
+
+    await ChatMember.bulkWrite(
+      chatIds.map((chatId, index) => ({
+        updateOne: {
+          filter: { userId: new mongoose.Types.ObjectId(userId), chatId: new mongoose.Types.ObjectId(chatId) },
+          update: { $set: { pinOrder: index } },
+        },
+      }))
+    );
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    io?.to(`user:${userId}`).emit('pinned_chats_reordered', { chatIds });
+
+    res.json({
+      success: true,
+      message: 'Pinned chats reordered successfully',
+      data: { chatIds },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const archiveChat = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { keepArchived } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    await savePreferences(req, res, userId, { $set: { archived: true, keepArchived: !!keepArchived } }, 'Chat archived successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unarchiveChat = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    await savePreferences(req, res, userId, { $set: { archived: false, keepArchived: false } }, 'Chat unarchived successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const markChatUnread = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    await savePreferences(req, res, userId, { $set: { markedUnread: true } }, 'Chat marked as unread');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const clearChatUnread = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    await savePreferences(req, res, userId, { $set: { markedUnread: false } }, 'Unread mark cleared');
+  } catch (error) {
+    next(error);
+  }
+};
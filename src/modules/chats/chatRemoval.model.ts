@@ -0,0 +1,40 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const CHAT_REMOVAL_RETENTION_DAYS = 30;
+
+// Records that users lost access to a chat (they left, were removed or the chat was deleted),
+// so clients syncing their chat list can drop it. Kept for a limited time.
+export interface IChatRemoval extends Document {
+  chatId: mongoose.Types.ObjectId;
+  userIds: mongoose.Types.ObjectId[];
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+const chatRemovalSchema = new Schema<IChatRemoval>(
+  {
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+    },
+    userIds: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    ],
+    expiresAt: {
+      type: Date,
+      default: () => new Date(Date.now() + CHAT_REMOVAL_RETENTION_DAYS * 24 * 60 * 60 * 1000),
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+chatRemovalSchema.index({ userIds: 1, createdAt: 1 });
+chatRemovalSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IChatRemoval>('ChatRemoval', chatRemovalSchema);
@@ -1,11 +1,49 @@
 import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { Server as SocketIOServer } from 'socket.io';
-import Chat from './chat.model';
+import Chat, { IChat, GroupPermission, GroupRole } from './chat.model';
+import ChatInvite from './invite.model';
+import JoinRequest from './joinRequest.model';
+import ChatMember, { IChatMember } from './chatMember.model';
+import {
+  formatPreferences,
+  getChatPreferences,
+  getReadPointers,
+  getTotalUnread,
+  getUnreadCounts,
+  initializeReadPointers,
+} from './chatMember.service';
+import {
+  formatMessagePreview,
+  listChatChanges,
+  listChats,
+  recordChatRemoval,
+  ChatListType,
+  PreviewedMessage,
+} from './chatList.service';
+import { announceChatDeleted, announceParticipantRemoved } from './membership.service';
+import { formatChatResponse, formatChatsResponse, populateChatUsers } from './chatFormat.service';
 import Message from '../messages/message.model';
+import MessageView from '../messages/messageView.model';
 import User from '../users/user.model';
 import { AuthRequest } from '../../types';
 import { AppError } from '../../utils/errors';
+import { processAvatar, removeAvatarFiles } from '../../utils/avatar';
 import { MessageStatus, MessageType } from '../../types';
+import { assertEmailVerified, UnverifiedRestriction } from '../users/verification.policy';
+import { assertNotBlocked } from '../users/block.service';
+import { assertCanAddToGroup, PUBLIC_USER_FIELDS } from '../users/privacy.policy';
+import {
+  assertOwner,
+  assertPermission,
+  getMemberRole,
+  isParticipant,
+  outranks,
+  releaseGroupRoles,
+  ALL_GROUP_PERMISSIONS,
+} from './permissions.policy';
+
+const MAX_CHATS_PER_PAGE = 100;
 
 // Helper function to resolve phone numbers to user IDs
 const resolvePhoneNumbersToUserIds = async (phoneNumbers: string[]): Promise<string[]> => {
@@ -13,7 +51,11 @@ const resolvePhoneNumbersToUserIds = async (phoneNumbers: string[]): Promise<str
     return [];
   }
 
-  const users = await User.find({ phoneNumber: { $in: phoneNumbers } }).select('_id phoneNumber');
+  // Only verified numbers identify a user - anyone can type any number into their profile
+  const users = await User.find({
+    phoneNumber: { $in: phoneNumbers },
+    phoneVerified: true,
+  }).select('_id phoneNumber');
   
   if (users.length !== phoneNumbers.length) {
     const foundPhoneNumbers = users.map(u => u.phoneNumber).filter(Boolean);
@@ -24,24 +66,24 @@ const resolvePhoneNumbersToUserIds = async (phoneNumbers: string[]): Promise<str
   return users.map(user => user._id.toString());
 };
 
-// Helper function to format chat response - filter out current user from participants in one-to-one chats
-const formatChatResponse = (chat: any, currentUserId: string) => {
-  const chatObj = chat.toObject ? chat.toObject() : { ...chat };
-  
-  // For one-to-one chats, only show the other participant (not the current user)
-  if (!chatObj.isGroup && chatObj.participants && Array.isArray(chatObj.participants)) {
-    chatObj.participants = chatObj.participants.filter(
-      (participant: any) => {
-        // Handle both populated objects and plain IDs
-        const participantId = participant._id?.toString() || 
-                              participant.toString() || 
-                              (typeof participant === 'string' ? participant : null);
-        return participantId && participantId !== currentUserId;
-      }
-    );
-  }
-  
-  return chatObj;
+// Helper function to format chats for the chat list, with a preview of the last message, unread
+// counts and the user's settings
+const formatChatList = async (chats: IChat[], members: IChatMember[], currentUserId: string) => {
+  await populateChatUsers(chats);
+
+  const [formattedChats, unreadCounts] = await Promise.all([
+    formatChatsResponse(chats, currentUserId),
+    getUnreadCounts(currentUserId, chats.map((chat) => chat._id.toString())),
+  ]);
+  const byChat = new Map(members.map((member) => [member.chatId.toString(), member]));
+
+  return formattedChats.map((chat) => ({
+    ...chat,
+    // Loaded with a preview of the last message by listChats and listChatChanges
+    lastMessage: formatMessagePreview(chat.lastMessage as PreviewedMessage | undefined),
+    ...unreadCounts.get(chat._id.toString()),
+    preferences: formatPreferences(byChat.get(chat._id.toString())),
+  }));
 };
 
 // Helper function to send notification message when a new chat is created
@@ -66,10 +108,10 @@ const sendChatNotification = async (
     });
 
     // Update chat's last message
-    await Chat.findByIdAndUpdate(chatId, { lastMessage: message._id });
+    await Chat.findByIdAndUpdate(chatId, { lastMessage: message._id, lastActivityAt: message.createdAt });
 
-    // Populate message
-    await message.populate('senderId', 'username avatar');
+    // Broadcasts only carry the sender's username
+    await message.populate('senderId', 'username');
 
     // Emit message to the recipient via Socket.IO if available
     if (io) {
@@ -119,7 +161,7 @@ const sendChatNotification = async (
 export const createChat = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const userId = req.user?.id;
-    const { participantIds, phoneNumbers, isGroup, name, description } = req.body;
+    const { participantIds, phoneNumbers, isGroup, isChannel, isDiscoverable, name, description } = req.body;
 
     if (!userId) {
       throw new AppError('User not authenticated', 401);
@@ -134,35 +176,40 @@ export const createChat = async (req: AuthRequest, res: Response, next: NextFunc
       ...phoneNumberUserIds,
     ];
 
-    if (isGroup) {
-      // Create group chat
+    if (isGroup || isChannel) {
+      // Create group chat, or a channel, which is a group where only admins post
       if (!name) {
-        throw new AppError('Group name is required', 400);
+        throw new AppError(isChannel ? 'Channel name is required' : 'Group name is required', 400);
       }
 
+      await assertEmailVerified(userId, UnverifiedRestriction.CREATE_GROUP);
+      await assertCanAddToGroup(userId, allParticipantIds);
+
       const participants = [userId, ...allParticipantIds];
       const uniqueParticipants = [...new Set(participants.map((id) => id.toString()))];
 
-      if (uniqueParticipants.length < 2) {
+      // A channel can start with just its owner and gain subscribers later
+      if (!isChannel && uniqueParticipants.length < 2) {
         throw new AppError('Group chat must have at least 2 participants', 400);
       }
 
       const chat = await Chat.create({
         isGroup: true,
+        isChannel: !!isChannel,
+        isDiscoverable: !!isDiscoverable,
         name,
         description,
         participants: uniqueParticipants,
-        admin: userId,
+        owner: userId,
       });
 
-      await chat.populate('participants', 'username avatar isOnline phoneNumber');
-      await chat.populate('admin', 'username avatar phoneNumber');
+      await populateChatUsers(chat);
 
-      const formattedChat = formatChatResponse(chat, userId);
+      const formattedChat = await formatChatResponse(chat, userId);
 
       res.status(201).json({
         success: true,
-        message: 'Group chat created successfully',
+        message: isChannel ? 'Channel created successfully' : 'Group chat created successfully',
         data: { chat: formattedChat },
       });
     } else {
@@ -171,8 +218,12 @@ export const createChat = async (req: AuthRequest, res: Response, next: NextFunc
         throw new AppError('One-to-one chat requires exactly one participant', 400);
       }
 
+      await assertEmailVerified(userId, UnverifiedRestriction.START_CHAT);
+
       const otherUserId = allParticipantIds[0];
 
+      await assertNotBlocked(userId, otherUserId);
+
       // Check if chat already exists
       const existingChat = await Chat.findOne({
         isGroup: false,
@@ -180,8 +231,8 @@ export const createChat = async (req: AuthRequest, res: Response, next: NextFunc
       });
 
       if (existingChat) {
-        await existingChat.populate('participants', 'username avatar isOnline phoneNumber');
-        const formattedChat = formatChatResponse(existingChat, userId);
+        await existingChat.populate('participants', PUBLIC_USER_FIELDS);
+        const formattedChat = await formatChatResponse(existingChat, userId);
         res.json({
           success: true,
           message: 'Chat already exists',
@@ -195,9 +246,9 @@ export const createChat = async (req: AuthRequest, res: Response, next: NextFunc
         participants: [userId, otherUserId],
       });
 
-      await chat.populate('participants', 'username avatar isOnline phoneNumber');
+      await chat.populate('participants', PUBLIC_USER_FIELDS);
 
-      const formattedChat = formatChatResponse(chat, userId);
+      const formattedChat = await formatChatResponse(chat, userId);
 
       // Send notification message to the second user
       const io = req.app.get('io') as SocketIOServer | undefined;
@@ -217,25 +268,74 @@ export const createChat = async (req: AuthRequest, res: Response, next: NextFunc
 export const getChats = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const userId = req.user?.id;
+    const { archived, pinned, unread, type, q, cursor } = req.query as Record<string, string | undefined>;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 30, 1), MAX_CHATS_PER_PAGE);
 
     if (!userId) {
       throw new AppError('User not authenticated', 401);
     }
 
-    const chats = await Chat.find({
-      participants: userId,
-    })
-      .populate('participants', 'username avatar isOnline phoneNumber')
-      .populate('admin', 'username avatar phoneNumber')
-      .populate('lastMessage')
-      .sort({ updatedAt: -1 });
+    const { chats, members, nextCursor } = await listChats(userId, {
+      cursor,
+      limit,
+      type: type as ChatListType | undefined,
+      q,
+      archived: archived === 'true',
+      pinned: pinned ? pinned === 'true' : undefined,
+      unread: unread ? unread === 'true' : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        chats: await formatChatList(chats, members, userId),
+        pagination: {
+          limit,
+          nextCursor,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getChatChanges = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
 
-    // Format chats - filter out current user from one-to-one chat participants
-    const formattedChats = chats.map(chat => formatChatResponse(chat, userId));
+    const { chats, members, removedChatIds, syncedAt } = await listChatChanges(userId, new Date(req.query.since as string));
 
     res.json({
       success: true,
-      data: { chats: formattedChats },
+      data: {
+        chats: await formatChatList(chats, members, userId),
+        removedChatIds,
+        syncedAt,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getUnreadSummary = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const summary = await getTotalUnread(userId);
+
+    res.json({
+      success: true,
+      data: summary,
     });
   } catch (error) {
     next(error);
@@ -255,19 +355,31 @@ export const getChatById = async (req: AuthRequest, res: Response, next: NextFun
       _id: id,
       participants: userId,
     })
-      .populate('participants', 'username avatar isOnline phoneNumber')
-      .populate('admin', 'username avatar phoneNumber')
       .populate('lastMessage');
 
     if (!chat) {
       throw new AppError('Chat not found', 404);
     }
 
-    const formattedChat = formatChatResponse(chat, userId);
+    await populateChatUsers(chat);
+
+    const [formattedChat, preferences, unreadCounts, readPointers] = await Promise.all([
+      formatChatResponse(chat, userId),
+      getChatPreferences(userId, [chat._id.toString()]),
+      getUnreadCounts(userId, [chat._id.toString()]),
+      getReadPointers(chat, userId),
+    ]);
 
     res.json({
       success: true,
-      data: { chat: formattedChat },
+      data: {
+        chat: {
+          ...formattedChat,
+          ...unreadCounts.get(chat._id.toString()),
+          readPointers,
+          preferences: preferences.get(chat._id.toString()),
+        },
+      },
     });
   } catch (error) {
     next(error);
@@ -278,7 +390,7 @@ export const updateChat = async (req: AuthRequest, res: Response, next: NextFunc
   try {
     const { id } = req.params;
     const userId = req.user?.id;
-    const { name, description, avatar } = req.body;
+    const { name, description, isDiscoverable } = req.body;
 
     if (!userId) {
       throw new AppError('User not authenticated', 401);
@@ -294,24 +406,23 @@ export const updateChat = async (req: AuthRequest, res: Response, next: NextFunc
       throw new AppError('Group chat not found', 404);
     }
 
-    // Check if user is admin
-    if (chat.admin?.toString() !== userId) {
-      throw new AppError('Only admin can update group chat', 403);
-    }
+    assertPermission(chat, userId, GroupPermission.EDIT_INFO, 'You cannot edit this group');
 
     const updateData: any = {};
     if (name) updateData.name = name;
     if (description !== undefined) updateData.description = description;
-    if (avatar !== undefined) updateData.avatar = avatar;
+    if (isDiscoverable !== undefined) updateData.isDiscoverable = isDiscoverable;
 
     const updatedChat = await Chat.findByIdAndUpdate(id, updateData, {
       new: true,
       runValidators: true,
-    })
-      .populate('participants', 'username avatar isOnline phoneNumber')
-      .populate('admin', 'username avatar phoneNumber');
+    });
+    if (!updatedChat) {
+      throw new AppError('Group chat not found', 404);
+    }
+    await populateChatUsers(updatedChat);
 
-    const formattedChat = formatChatResponse(updatedChat, userId);
+    const formattedChat = await formatChatResponse(updatedChat, userId);
 
     res.json({
       success: true,
@@ -323,6 +434,93 @@ export const updateChat = async (req: AuthRequest, res: Response, next: NextFunc
   }
 };
 
+// Helper function to load a group chat the user belongs to
+const findGroup = async (chatId: string, userId: string) => {
+  const chat = await Chat.findOne({
+    _id: chatId,
+    participants: userId,
+    isGroup: true,
+  });
+
+  if (!chat) {
+    throw new AppError('Group chat not found', 404);
+  }
+
+  return chat;
+};
+
+export const updateChatAvatar = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    if (!req.file) {
+      throw new AppError('No image uploaded', 400);
+    }
+
+    const chat = await findGroup(id, userId);
+    assertPermission(chat, userId, GroupPermission.EDIT_INFO, 'You cannot edit this group');
+
+    const avatar = await processAvatar(req.file.buffer);
+
+    // Swap atomically and remove only the files of the avatar actually replaced, so
+    // concurrent uploads do not delete each other's images
+    const previous = await Chat.findByIdAndUpdate(chat._id, { $set: { avatar } })
+      .select('avatar')
+      .catch(async (error) => {
+        await removeAvatarFiles(avatar);
+        throw error;
+      });
+
+    if (!previous) {
+      await removeAvatarFiles(avatar);
+      throw new AppError('Group chat not found', 404);
+    }
+
+    await removeAvatarFiles(previous.avatar);
+
+    res.json({
+      success: true,
+      message: 'Chat avatar updated successfully',
+      data: {
+        avatar,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteChatAvatar = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findGroup(id, userId);
+    assertPermission(chat, userId, GroupPermission.EDIT_INFO, 'You cannot edit this group');
+
+    const previousAvatar = chat.avatar;
+    chat.avatar = undefined;
+    await chat.save();
+    await removeAvatarFiles(previousAvatar);
+
+    res.json({
+      success: true,
+      message: 'Chat avatar removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const addParticipants = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { id } = req.params;
@@ -356,10 +554,7 @@ export const addParticipants = async (req: AuthRequest, res: Response, next: Nex
       throw new AppError('Group chat not found', 404);
     }
 
-    // Check if user is admin
-    if (chat.admin?.toString() !== userId) {
-      throw new AppError('Only admin can add participants', 403);
-    }
+    assertPermission(chat, userId, GroupPermission.ADD_MEMBERS, 'You cannot add participants to this group');
 
     // Add new participants (avoid duplicates)
     const existingParticipants = chat.participants.map((p) => p.toString());
@@ -369,13 +564,15 @@ export const addParticipants = async (req: AuthRequest, res: Response, next: Nex
       throw new AppError('All users are already participants', 400);
     }
 
+    await assertCanAddToGroup(userId, newParticipants);
+
     chat.participants.push(...newParticipants);
     await chat.save();
+    await initializeReadPointers(id, newParticipants.map((participant) => participant.toString()));
 
-    await chat.populate('participants', 'username avatar isOnline phoneNumber');
-    await chat.populate('admin', 'username avatar phoneNumber');
+    await populateChatUsers(chat);
 
-    const formattedChat = formatChatResponse(chat, userId);
+    const formattedChat = await formatChatResponse(chat, userId);
 
     res.json({
       success: true,
@@ -406,35 +603,50 @@ export const removeParticipant = async (req: AuthRequest, res: Response, next: N
       throw new AppError('Group chat not found', 404);
     }
 
-    // Check if user is admin or removing themselves
-    if (chat.admin?.toString() !== userId && participantId !== userId) {
-      throw new AppError('Only admin can remove other participants', 403);
+    if (!isParticipant(chat, participantId)) {
+      throw new AppError('User is not a participant of this group', 404);
+    }
+
+    // Anyone can leave; removing someone else takes the permission and a higher role
+    if (participantId !== userId) {
+      assertPermission(chat, userId, GroupPermission.REMOVE_MEMBERS, 'You cannot remove participants from this group');
+      if (!outranks(chat, userId, participantId)) {
+        throw new AppError('You cannot remove a participant whose role is equal to or above yours', 403);
+      }
     }
 
     chat.participants = chat.participants.filter(
       (p) => p.toString() !== participantId
     );
 
-    // If admin is removed, assign new admin or delete chat
-    if (chat.admin?.toString() === participantId) {
-      if (chat.participants.length > 0) {
-        chat.admin = chat.participants[0];
-      } else {
-        await Chat.findByIdAndDelete(id);
-        res.json({
-          success: true,
-          message: 'Chat deleted as no participants remain',
-        });
-        return;
-      }
+    await recordChatRemoval(id, [participantId]);
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    if (io) {
+      announceParticipantRemoved(io, chat, participantId, userId);
+    }
+
+    if (chat.participants.length === 0) {
+      await Chat.findByIdAndDelete(id);
+      await ChatInvite.deleteMany({ chatId: id });
+      await JoinRequest.deleteMany({ chatId: id });
+      await ChatMember.deleteMany({ chatId: id });
+      await removeAvatarFiles(chat.avatar);
+      res.json({
+        success: true,
+        message: 'Chat deleted as no participants remain',
+      });
+      return;
     }
 
+    // A departing owner hands the group over
+    releaseGroupRoles(chat, participantId);
     await chat.save();
+    await ChatMember.deleteOne({ chatId: id, userId: participantId });
 
-    await chat.populate('participants', 'username avatar isOnline phoneNumber');
-    await chat.populate('admin', 'username avatar phoneNumber');
+    await populateChatUsers(chat);
 
-    const formattedChat = formatChatResponse(chat, userId);
+    const formattedChat = await formatChatResponse(chat, userId);
 
     res.json({
       success: true,
@@ -446,6 +658,160 @@ export const removeParticipant = async (req: AuthRequest, res: Response, next: N
   }
 };
 
+// Helper function to tell a group's participants that roles or permissions changed
+const emitRolesUpdated = (req: AuthRequest, chat: IChat): void => {
+  const io = req.app.get('io') as SocketIOServer | undefined;
+  io?.to(`chat:${chat._id}`).emit('group_roles_updated', {
+    chatId: chat._id,
+    owner: chat.owner,
+    admins: chat.admins,
+    memberPermissions: chat.memberPermissions,
+  });
+};
+
+// Helper function to send the group back after a role change
+const sendGroup = async (res: Response, chat: IChat, userId: string, message: string): Promise<void> => {
+  await populateChatUsers(chat);
+
+  const formattedChat = await formatChatResponse(chat, userId);
+
+  res.json({
+    success: true,
+    message,
+    data: { chat: formattedChat },
+  });
+};
+
+export const promoteParticipant = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id, participantId } = req.params;
+    const userId = req.user?.id;
+    const { permissions } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findGroup(id, userId);
+    assertOwner(chat, userId, 'Only the group owner can promote participants');
+
+    const role = getMemberRole(chat, participantId);
+    if (!role) {
+      throw new AppError('User is not a participant of this group', 404);
+    }
+    if (role === GroupRole.OWNER) {
+      throw new AppError('The owner cannot be promoted', 400);
+    }
+
+    // Promoting an existing admin again replaces their permissions
+    const grantedPermissions: GroupPermission[] = [...new Set<GroupPermission>(permissions || ALL_GROUP_PERMISSIONS)];
+    const existing = chat.admins.find((admin) => admin.userId.toString() === participantId);
+    if (existing) {
+      existing.permissions = grantedPermissions;
+    } else {
+      chat.admins.push({
+        userId: new mongoose.Types.ObjectId(participantId),
+        permissions: grantedPermissions,
+        promotedBy: new mongoose.Types.ObjectId(userId),
+        promotedAt: new Date(),
+      });
+    }
+    await chat.save();
+
+    emitRolesUpdated(req, chat);
+    await sendGroup(res, chat, userId, 'Participant promoted successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const demoteParticipant = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id, participantId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findGroup(id, userId);
+    assertOwner(chat, userId, 'Only the group owner can demote admins');
+
+    if (getMemberRole(chat, participantId) !== GroupRole.ADMIN) {
+      throw new AppError('User is not an admin of this group', 400);
+    }
+
+    chat.admins = chat.admins.filter((admin) => admin.userId.toString() !== participantId);
+    await chat.save();
+
+    emitRolesUpdated(req, chat);
+    await sendGroup(res, chat, userId, 'Admin demoted successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const transferOwnership = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const { participantId } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findGroup(id, userId);
+    assertOwner(chat, userId, 'Only the group owner can transfer ownership');
+
+    if (participantId === userId) {
+      throw new AppError('You already own this group', 400);
+    }
+    if (!isParticipant(chat, participantId)) {
+      throw new AppError('User is not a participant of this group', 404);
+    }
+
+    // The previous owner stays on as an admin with every permission
+    chat.owner = new mongoose.Types.ObjectId(participantId);
+    chat.admins = chat.admins.filter((admin) => admin.userId.toString() !== participantId);
+    chat.admins.push({
+      userId: new mongoose.Types.ObjectId(userId),
+      permissions: ALL_GROUP_PERMISSIONS,
+      promotedBy: new mongoose.Types.ObjectId(participantId),
+      promotedAt: new Date(),
+    });
+    await chat.save();
+
+    emitRolesUpdated(req, chat);
+    await sendGroup(res, chat, userId, 'Ownership transferred successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateMemberPermissions = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const { permissions } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findGroup(id, userId);
+    assertOwner(chat, userId, 'Only the group owner can change member permissions');
+
+    chat.memberPermissions = [...new Set<GroupPermission>(permissions)];
+    await chat.save();
+
+    emitRolesUpdated(req, chat);
+    await sendGroup(res, chat, userId, 'Member permissions updated successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const deleteChat = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { id } = req.params;
@@ -464,16 +830,27 @@ export const deleteChat = async (req: AuthRequest, res: Response, next: NextFunc
       throw new AppError('Chat not found', 404);
     }
 
-    // For group chats, only admin can delete
-    if (chat.isGroup && chat.admin?.toString() !== userId) {
-      throw new AppError('Only admin can delete group chat', 403);
+    // For group chats, only the owner can delete
+    if (chat.isGroup) {
+      assertOwner(chat, userId, 'Only the group owner can delete the group');
     }
 
     // Delete all messages
     await Message.deleteMany({ chatId: id });
+    await MessageView.deleteMany({ chatId: id });
 
     // Delete chat
     await Chat.findByIdAndDelete(id);
+    await recordChatRemoval(id, chat.participants);
+    await ChatInvite.deleteMany({ chatId: id });
+    await JoinRequest.deleteMany({ chatId: id });
+    await ChatMember.deleteMany({ chatId: id });
+    await removeAvatarFiles(chat.avatar);
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    if (io) {
+      announceChatDeleted(io, id, chat.participants);
+    }
 
     res.json({
       success: true,
@@ -493,11 +870,13 @@ export const startChat = async (req: AuthRequest, res: Response, next: NextFunct
       throw new AppError('User not authenticated', 401);
     }
 
+    await assertEmailVerified(userId, UnverifiedRestriction.START_CHAT);
+
     // Resolve phone number to user ID if phone number is provided
     let otherUserId: string;
     
     if (phoneNumber) {
-      const user = await User.findOne({ phoneNumber }).select('_id');
+      const user = await User.findOne({ phoneNumber, phoneVerified: true }).select('_id');
       if (!user) {
         throw new AppError('User not found with the provided phone number', 404);
       }
@@ -514,6 +893,8 @@ export const startChat = async (req: AuthRequest, res: Response, next: NextFunct
       throw new AppError('User not found', 404);
     }
 
+    await assertNotBlocked(userId, otherUserId);
+
     // Check if chat already exists
     const existingChat = await Chat.findOne({
       isGroup: false,
@@ -521,8 +902,8 @@ export const startChat = async (req: AuthRequest, res: Response, next: NextFunct
     });
 
     if (existingChat) {
-      await existingChat.populate('participants', 'username avatar isOnline phoneNumber');
-      const formattedChat = formatChatResponse(existingChat, userId);
+      await existingChat.populate('participants', PUBLIC_USER_FIELDS);
+      const formattedChat = await formatChatResponse(existingChat, userId);
       res.json({
         success: true,
         message: 'Chat already exists',
@@ -537,9 +918,9 @@ export const startChat = async (req: AuthRequest, res: Response, next: NextFunct
       participants: [userId, otherUserId],
     });
 
-    await chat.populate('participants', 'username avatar isOnline phoneNumber');
+    await chat.populate('participants', PUBLIC_USER_FIELDS);
 
-    const formattedChat = formatChatResponse(chat, userId);
+    const formattedChat = await formatChatResponse(chat, userId);
 
     // Send notification message to the second user
     const io = req.app.get('io') as SocketIOServer | undefined;
@@ -1,19 +1,57 @@
 import { Router } from 'express';
 import * as chatsController from './chats.controller';
+import * as invitesController from './invites.controller';
+import * as joinRequestsController from './joinRequests.controller';
+import * as channelsController from './channels.controller';
+import * as chatPreferencesController from './chatPreferences.controller';
 import { validate } from '../../middlewares/validation.middleware';
-import { authMiddleware } from '../../middlewares/auth.middleware';
+import { authMiddleware, requireScope } from '../../middlewares/auth.middleware';
+import { uploadAvatar } from '../../utils/upload';
+import { ApiScope } from '../../types';
 import * as chatsValidation from './chats.validation';
 
 const router = Router();
 
-router.post('/start', authMiddleware, validate(chatsValidation.startChatSchema), chatsController.startChat);
-router.post('/', authMiddleware, validate(chatsValidation.createChatSchema), chatsController.createChat);
-router.get('/', authMiddleware, chatsController.getChats);
-router.get('/:id', authMiddleware, chatsController.getChatById);
-router.put('/:id', authMiddleware, validate(chatsValidation.updateChatSchema), chatsController.updateChat);
-router.post('/:id/participants', authMiddleware, validate(chatsValidation.addParticipantsSchema), chatsController.addParticipants);
-router.delete('/:id/participants/:participantId', authMiddleware, chatsController.removeParticipant);
-router.delete('/:id', authMiddleware, chatsController.deleteChat);
+router.post('/start', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.startChatSchema), chatsController.startChat);
+router.post('/', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.createChatSchema), chatsController.createChat);
+router.get('/', authMiddleware, requireScope(ApiScope.CHATS_READ), validate(chatsValidation.getChatsSchema), chatsController.getChats);
+router.get('/changes', authMiddleware, requireScope(ApiScope.CHATS_READ), validate(chatsValidation.getChatChangesSchema), chatsController.getChatChanges);
+router.get('/unread', authMiddleware, requireScope(ApiScope.CHATS_READ), chatsController.getUnreadSummary);
+router.put('/pinned/order', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.reorderPinnedChatsSchema), chatPreferencesController.reorderPinnedChats);
+router.get('/discover', authMiddleware, requireScope(ApiScope.CHATS_READ), validate(chatsValidation.discoverChatsSchema), channelsController.discoverChats);
+router.get('/invite/:code', authMiddleware, requireScope(ApiScope.CHATS_READ), invitesController.previewInvite);
+router.post('/invite/:code/join', authMiddleware, requireScope(ApiScope.CHATS_WRITE), invitesController.joinViaInvite);
+router.get('/join-requests', authMiddleware, requireScope(ApiScope.CHATS_READ), joinRequestsController.getMyJoinRequests);
+router.delete('/join-requests/:requestId', authMiddleware, requireScope(ApiScope.CHATS_WRITE), joinRequestsController.cancelJoinRequest);
+router.get('/:id', authMiddleware, requireScope(ApiScope.CHATS_READ), chatsController.getChatById);
+router.put('/:id', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.updateChatSchema), chatsController.updateChat);
+router.post('/:id/avatar', authMiddleware, requireScope(ApiScope.CHATS_WRITE), uploadAvatar, chatsController.updateChatAvatar);
+router.delete('/:id/avatar', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatsController.deleteChatAvatar);
+router.post('/:id/participants', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.addParticipantsSchema), chatsController.addParticipants);
+router.delete('/:id/participants/:participantId', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatsController.removeParticipant);
+router.post('/:id/participants/:participantId/promote', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.promoteParticipantSchema), chatsController.promoteParticipant);
+router.post('/:id/participants/:participantId/demote', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatsController.demoteParticipant);
+router.put('/:id/owner', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.transferOwnershipSchema), chatsController.transferOwnership);
+router.put('/:id/permissions', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.updateMemberPermissionsSchema), chatsController.updateMemberPermissions);
+router.get('/:id/invites', authMiddleware, requireScope(ApiScope.CHATS_READ), invitesController.getInvites);
+router.post('/:id/invites', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.createInviteSchema), invitesController.createInvite);
+router.delete('/:id/invites/:inviteId', authMiddleware, requireScope(ApiScope.CHATS_WRITE), invitesController.revokeInvite);
+router.put('/:id/mute', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.muteChatSchema), chatPreferencesController.muteChat);
+router.delete('/:id/mute', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatPreferencesController.unmuteChat);
+router.put('/:id/pin', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatPreferencesController.pinChat);
+router.delete('/:id/pin', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatPreferencesController.unpinChat);
+router.put('/:id/archive', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.archiveChatSchema), chatPreferencesController.archiveChat);
+router.delete('/:id/archive', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatPreferencesController.unarchiveChat);
+router.put('/:id/unread', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatPreferencesController.markChatUnread);
+router.delete('/:id/unread', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatPreferencesController.clearChatUnread);
+router.post('/:id/subscribe', authMiddleware, requireScope(ApiScope.CHATS_WRITE), channelsController.subscribe);
+router.delete('/:id/subscribe', authMiddleware, requireScope(ApiScope.CHATS_WRITE), channelsController.unsubscribe);
+router.get('/:id/subscribers', authMiddleware, requireScope(ApiScope.CHATS_READ), channelsController.getSubscribers);
+router.post('/:id/join', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.requestToJoinSchema), joinRequestsController.requestToJoin);
+router.get('/:id/join-requests', authMiddleware, requireScope(ApiScope.CHATS_READ), joinRequestsController.getJoinRequests);
+router.post('/:id/join-requests/:requestId/approve', authMiddleware, requireScope(ApiScope.CHATS_WRITE), joinRequestsController.approveJoinRequest);
+router.post('/:id/join-requests/:requestId/reject', authMiddleware, requireScope(ApiScope.CHATS_WRITE), validate(chatsValidation.rejectJoinRequestSchema), joinRequestsController.rejectJoinRequest);
+router.delete('/:id', authMiddleware, requireScope(ApiScope.CHATS_WRITE), chatsController.deleteChat);
 
 export default router;
 
@@ -1,20 +1,26 @@
 import { z } from 'zod';
+import { GroupPermission } from './chat.model';
+
+const objectId = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+const booleanQuery = z.enum(['true', 'false']).optional();
 
 export const createChatSchema = z.object({
   body: z.object({
     participantIds: z.array(z.string()).optional(),
     phoneNumbers: z.array(z.string().regex(/^[0-9]{10,11}$/, 'Invalid phone number (10-11 digits)')).optional(),
     isGroup: z.boolean().optional().default(false),
+    isChannel: z.boolean().optional().default(false),
+    isDiscoverable: z.boolean().optional(),
     name: z.string().min(1).max(50).optional(),
     description: z.string().max(200).optional(),
   }).refine((data) => {
-    if (data.isGroup) {
+    if (data.isGroup || data.isChannel) {
       return !!data.name;
     }
     const participantCount = (data.participantIds?.length || 0) + (data.phoneNumbers?.length || 0);
     return participantCount === 1;
   }, {
-    message: 'Group chat requires name, one-to-one chat requires exactly one participant (by ID or phone number)',
+    message: 'Group chats and channels require a name, one-to-one chat requires exactly one participant (by ID or phone number)',
   }),
 });
 
@@ -22,7 +28,7 @@ export const updateChatSchema = z.object({
   body: z.object({
     name: z.string().min(1).max(50).optional(),
     description: z.string().max(200).optional(),
-    avatar: z.string().url().optional().or(z.literal('')),
+    isDiscoverable: z.boolean().optional(),
   }),
 });
 
@@ -49,3 +55,94 @@ export const startChatSchema = z.object({
   }),
 });
 
+
+export const promoteParticipantSchema = z.object({
+  body: z.object({
+    permissions: z.array(z.nativeEnum(GroupPermission)).optional(),
+  }),
+});
+
+export const transferOwnershipSchema = z.object({
+  body: z.object({
+    participantId: z.string().min(1),
+  }),
+});
+
+export const updateMemberPermissionsSchema = z.object({
+  body: z.object({
+    permissions: z.array(z.nativeEnum(GroupPermission)),
+  }),
+});
+
+export const createInviteSchema = z.object({
+  body: z.object({
+    expiresAt: z
+      .string()
+      .datetime({ offset: true })
+      .refine((val) => new Date(val) > new Date(), 'Expiry must be in the future')
+      .optional(),
+    maxUses: z.number().int().min(1).max(100000).optional(),
+    requiresApproval: z.boolean().optional(),
+  }),
+});
+
+export const requestToJoinSchema = z.object({
+  body: z.object({
+    message: z.string().trim().max(200).optional(),
+  }),
+});
+
+export const rejectJoinRequestSchema = z.object({
+  body: z.object({
+    reason: z.string().trim().max(200).optional(),
+  }),
+});
+
+export const discoverChatsSchema = z.object({
+  query: z.object({
+    q: z.string().trim().max(100).optional(),
+    type: z.enum(['channel', 'group']).optional(),
+    page: z.string().regex(/^\d+$/, 'Page must be a number').optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+  }),
+});
+
+export const getChatsSchema = z.object({
+  query: z.object({
+    archived: booleanQuery,
+    pinned: booleanQuery,
+    unread: booleanQuery,
+    type: z.enum(['group', 'channel', 'direct']).optional(),
+    q: z.string().trim().min(1).max(100).optional(),
+    cursor: z.string().max(200).optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
+  }),
+});
+
+export const getChatChangesSchema = z.object({
+  query: z.object({
+    since: z.string().datetime({ offset: true }),
+  }),
+});
+
+export const muteChatSchema = z.object({
+  body: z.object({
+    until: z
+      .string()
+      .datetime({ offset: true })
+      .refine((val) => new Date(val) > new Date(), 'Mute end must be in the future')
+      .optional(),
+  }),
+});
+
+export const archiveChatSchema = z.object({
+  body: z.object({
+    keepArchived: z.boolean().optional(),
+  }),
+});
+
+export const reorderPinnedChatsSchema = z.object({
+  body: z.object({
+    chatIds: z.array(objectId).max(100),
+  }),
+});
@@ -0,0 +1,59 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A shareable link that lets people join a group without an admin adding them
+export interface IChatInvite extends Document {
+  chatId: mongoose.Types.ObjectId;
+  code: string;
+  createdBy: mongoose.Types.ObjectId;
+  expiresAt?: Date;
+  maxUses?: number;
+  useCount: number;
+  requiresApproval: boolean;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const chatInviteSchema = new Schema<IChatInvite>(
+  {
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+      index: true,
+    },
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    maxUses: {
+      type: Number,
+      min: 1,
+    },
+    useCount: {
+      type: Number,
+      default: 0,
+    },
+    requiresApproval: {
+      type: Boolean,
+      default: false,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IChatInvite>('ChatInvite', chatInviteSchema);
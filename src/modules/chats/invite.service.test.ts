@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+import ChatInvite from './invite.model';
+import { claimInviteUse, releaseInviteUse, usableInviteFilter } from './invite.service';
+
+const inviteId = new mongoose.Types.ObjectId();
+
+describe('invite use limits', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.useFakeTimers({ doNotFake: ['setInterval'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('only matches invites that are not revoked, expired or used up', () => {
+    jest.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    expect(usableInviteFilter()).toEqual({
+      revokedAt: null,
+      $and: [
+        { $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date('2026-01-01T00:00:00Z') } }] },
+        { $or: [{ maxUses: null }, { $expr: { $lt: ['$useCount', '$maxUses'] } }] },
+      ],
+    });
+  });
+
+  it('takes a use in the same update that checks the invite is still usable', async () => {
+    const findOneAndUpdate = jest.spyOn(ChatInvite, 'findOneAndUpdate').mockResolvedValue(null);
+
+    await expect(claimInviteUse(inviteId)).resolves.toBeNull();
+
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(1);
+    expect(findOneAndUpdate).toHaveBeenCalledWith({ _id: inviteId, ...usableInviteFilter() }, { $inc: { useCount: 1 } });
+  });
+
+  it('never gives back more uses than were taken', async () => {
+    const updateOne = jest.spyOn(ChatInvite, 'updateOne').mockResolvedValue({} as never);
+
+    await releaseInviteUse(inviteId);
+
+    expect(updateOne).toHaveBeenCalledWith({ _id: inviteId, useCount: { $gt: 0 } }, { $inc: { useCount: -1 } });
+  });
+});
@@ -0,0 +1,24 @@
+import mongoose from 'mongoose';
+import ChatInvite, { IChatInvite } from './invite.model';
+
+type InviteId = string | mongoose.Types.ObjectId;
+
+// Invites that can still be used: not revoked, not expired and not used up
+export const usableInviteFilter = () => ({
+  revokedAt: null,
+  $and: [
+    { $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] },
+    { $or: [{ maxUses: null }, { $expr: { $lt: ['$useCount', '$maxUses'] } }] },
+  ],
+});
+
+// Take a use of an invite atomically so concurrent joins cannot go past maxUses. Returns null
+// when the invite can no longer be used.
+export const claimInviteUse = async (inviteId: InviteId): Promise<IChatInvite | null> => {
+  return ChatInvite.findOneAndUpdate({ _id: inviteId, ...usableInviteFilter() }, { $inc: { useCount: 1 } });
+};
+
+// Give back a use taken for a join that did not happen
+export const releaseInviteUse = async (inviteId: InviteId): Promise<void> => {
+  await ChatInvite.updateOne({ _id: inviteId, useCount: { $gt: 0 } }, { $inc: { useCount: -1 } });
+};
@@ -0,0 +1,233 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Chat, { GroupPermission } from './chat.model';
+import ChatInvite, { IChatInvite } from './invite.model';
+import { assertPermission, isParticipant } from './permissions.policy';
+import { formatChatResponse, populateChatUsers } from './chatFormat.service';
+import { addJoinedParticipant } from './membership.service';
+import { claimInviteUse, releaseInviteUse, usableInviteFilter } from './invite.service';
+import { createJoinRequest, formatJoinRequest } from './joinRequest.service';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+import { generateRandomToken } from '../../utils/tokens';
+
+const MAX_ACTIVE_INVITES_PER_CHAT = 50;
+
+const formatInvite = (invite: IChatInvite) => ({
+  id: invite._id,
+  code: invite.code,
+  createdBy: invite.createdBy,
+  expiresAt: invite.expiresAt,
+  maxUses: invite.maxUses,
+  useCount: invite.useCount,
+  requiresApproval: invite.requiresApproval,
+  createdAt: invite.createdAt,
+});
+
+// Helper function to load a group whose invite links the user may manage
+const findInviteManagedGroup = async (chatId: string, userId: string) => {
+  const chat = await Chat.findOne({
+    _id: chatId,
+    participants: userId,
+    isGroup: true,
+  });
+
+  if (!chat) {
+    throw new AppError('Group chat not found', 404);
+  }
+
+  assertPermission(chat, userId, GroupPermission.MANAGE_INVITES, 'You cannot manage invite links for this group');
+  return chat;
+};
+
+// Helper function to find a usable invite and its group by code
+const findUsableInvite = async (code: string) => {
+  const invite = await ChatInvite.findOne({ code, ...usableInviteFilter() });
+  const chat = invite && (await Chat.findOne({ _id: invite.chatId, isGroup: true }));
+
+  if (!invite || !chat) {
+    throw new AppError('Invite link is invalid or has expired', 404);
+  }
+
+  return { invite, chat };
+};
+
+export const createInvite = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const { expiresAt, maxUses, requiresApproval } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findInviteManagedGroup(id, userId);
+
+    const activeCount = await ChatInvite.countDocuments({ chatId: chat._id, ...usableInviteFilter() });
+    if (activeCount >= MAX_ACTIVE_INVITES_PER_CHAT) {
+      throw new AppError(`A group can have at most ${MAX_ACTIVE_INVITES_PER_CHAT} active invite links`, 400);
+    }
+
+    const invite = await ChatInvite.create({
+      chatId: chat._id,
+      code: generateRandomToken(9),
+      createdBy: userId,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      maxUses,
+      requiresApproval: !!requiresApproval,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Invite link created successfully',
+      data: { invite: formatInvite(invite) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getInvites = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findInviteManagedGroup(id, userId);
+    const invites = await ChatInvite.find({ chatId: chat._id, ...usableInviteFilter() }).sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { invites: invites.map(formatInvite) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const revokeInvite = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id, inviteId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findInviteManagedGroup(id, userId);
+
+    if (!mongoose.isValidObjectId(inviteId)) {
+      throw new AppError('Invite link not found', 404);
+    }
+
+    const invite = await ChatInvite.findOneAndUpdate(
+      { _id: inviteId, chatId: chat._id, revokedAt: null },
+      { revokedAt: new Date() }
+    );
+
+    if (!invite) {
+      throw new AppError('Invite link not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Invite link revoked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const previewInvite = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { invite, chat } = await findUsableInvite(code);
+
+    res.json({
+      success: true,
+      data: {
+        invite: {
+          code: invite.code,
+          expiresAt: invite.expiresAt,
+          requiresApproval: invite.requiresApproval,
+        },
+        chat: {
+          id: chat._id,
+          name: chat.name,
+          description: chat.description,
+          avatar: chat.avatar,
+          isChannel: chat.isChannel,
+          participantCount: chat.participants.length,
+        },
+        isParticipant: isParticipant(chat, userId),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const joinViaInvite = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { invite, chat } = await findUsableInvite(code);
+
+    if (isParticipant(chat, userId)) {
+      throw new AppError('You are already a participant of this group', 409);
+    }
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+
+    // Approval links queue a join request instead; the use is counted once it is approved
+    if (invite.requiresApproval) {
+      const request = await createJoinRequest(chat, userId, { inviteId: invite._id.toString() }, io);
+
+      res.status(202).json({
+        success: true,
+        message: 'Join request sent. A group admin needs to approve it.',
+        data: { request: formatJoinRequest(request) },
+      });
+      return;
+    }
+
+    if (!(await claimInviteUse(invite._id))) {
+      throw new AppError('Invite link is invalid or has expired', 404);
+    }
+
+    const updatedChat = await addJoinedParticipant(chat._id.toString(), userId, io);
+
+    // The group was deleted in the meantime; give the use back
+    if (!updatedChat) {
+      await releaseInviteUse(invite._id);
+      throw new AppError('Group chat not found', 404);
+    }
+
+    await populateChatUsers(updatedChat);
+    const formattedChat = await formatChatResponse(updatedChat, userId);
+
+    res.json({
+      success: true,
+      message: 'Joined group successfully',
+      data: { chat: formattedChat },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
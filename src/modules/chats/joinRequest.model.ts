@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum JoinRequestStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  CANCELLED = 'cancelled', // Withdrawn by the requester
+  EXPIRED = 'expired', // Nobody reviewed it in time
+}
+
+// A user's request to join a group that requires approval, either through an
+// approval-only invite link or because the group is discoverable
+export interface IJoinRequest extends Document {
+  chatId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  inviteId?: mongoose.Types.ObjectId;
+  message?: string;
+  status: JoinRequestStatus;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  reason?: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const joinRequestSchema = new Schema<IJoinRequest>(
+  {
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    inviteId: {
+      type: Schema.Types.ObjectId,
+      ref: 'ChatInvite',
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Message cannot exceed 200 characters'],
+    },
+    status: {
+      type: String,
+      enum: Object.values(JoinRequestStatus),
+      default: JoinRequestStatus.PENDING,
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Reason cannot exceed 200 characters'],
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One pending request per user and group
+joinRequestSchema.index(
+  { chatId: 1, userId: 1 },
+  { unique: true, partialFilterExpression: { status: JoinRequestStatus.PENDING } }
+);
+joinRequestSchema.index({ chatId: 1, status: 1, createdAt: 1 });
+joinRequestSchema.index({ userId: 1, status: 1 });
+joinRequestSchema.index({ status: 1, expiresAt: 1 });
+
+export default mongoose.model<IJoinRequest>('JoinRequest', joinRequestSchema);
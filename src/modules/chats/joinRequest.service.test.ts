@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Chat, { GroupPermission } from './chat.model';
+import JoinRequest, { JoinRequestStatus } from './joinRequest.model';
+import { createJoinRequest, getReviewerIds } from './joinRequest.service';
+
+const ownerId = new mongoose.Types.ObjectId();
+const adminId = new mongoose.Types.ObjectId();
+const pinOnlyAdminId = new mongoose.Types.ObjectId();
+const memberId = new mongoose.Types.ObjectId();
+const requesterId = new mongoose.Types.ObjectId().toString();
+
+const chat = new Chat({
+  isGroup: true,
+  name: 'Group',
+  participants: [ownerId, adminId, pinOnlyAdminId, memberId],
+  owner: ownerId,
+  admins: [
+    { userId: adminId, permissions: [GroupPermission.ADD_MEMBERS] },
+    { userId: pinOnlyAdminId, permissions: [GroupPermission.PIN_MESSAGES] },
+  ],
+});
+
+describe('join requests', () => {
+  const emit = jest.fn();
+  const to = jest.fn(() => ({ emit }));
+  const io = { to } as unknown as SocketIOServer;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    emit.mockClear();
+    to.mockClear();
+  });
+
+  it('allows only one pending request per user and group', async () => {
+    jest.spyOn(JoinRequest, 'findOne').mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+    const create = jest.spyOn(JoinRequest, 'create');
+
+    await expect(createJoinRequest(chat, requesterId, {}, io)).rejects.toMatchObject({ statusCode: 409 });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('expires stale requests and notifies only members who may add members', async () => {
+    jest.spyOn(JoinRequest, 'findOne').mockResolvedValue(null);
+    const updateMany = jest.spyOn(JoinRequest, 'updateMany').mockResolvedValue({} as never);
+    const create = jest
+      .spyOn(JoinRequest, 'create')
+      .mockImplementation(((doc: Record<string, unknown>) =>
+        Promise.resolve(new JoinRequest(doc))) as never);
+    jest.spyOn(JoinRequest.prototype, 'populate').mockResolvedValue(undefined as never);
+
+    const request = await createJoinRequest(chat, requesterId, { message: 'Hi' }, io);
+
+    expect(updateMany).toHaveBeenCalledWith(
+      { chatId: chat._id, userId: requesterId, status: JoinRequestStatus.PENDING },
+      { status: JoinRequestStatus.EXPIRED }
+    );
+    expect(create).toHaveBeenCalled();
+    expect(request.expiresAt.getTime()).toBeGreaterThan(Date.now() + 6 * 24 * 60 * 60 * 1000);
+    expect(to).toHaveBeenCalledWith([`user:${ownerId}`, `user:${adminId}`]);
+    expect(emit).toHaveBeenCalledWith('join_request_created', expect.objectContaining({ chatId: chat._id }));
+  });
+
+  it('lets regular members review when they may add members', () => {
+    const open = new Chat({ ...chat.toObject(), memberPermissions: [GroupPermission.ADD_MEMBERS] });
+
+    expect(getReviewerIds(open)).toEqual([ownerId, adminId, memberId].map(String));
+  });
+});
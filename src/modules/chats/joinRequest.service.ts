@@ -0,0 +1,125 @@
+import { Server as SocketIOServer } from 'socket.io';
+import Chat, { IChat, GroupPermission } from './chat.model';
+import JoinRequest, { IJoinRequest, JoinRequestStatus } from './joinRequest.model';
+import { hasPermission } from './permissions.policy';
+import { AppError } from '../../utils/errors';
+import logger from '../../utils/logger';
+
+const JOIN_REQUEST_EXPIRES_DAYS = parseInt(process.env.JOIN_REQUEST_EXPIRES_DAYS || '7', 10);
+
+export const formatJoinRequest = (request: IJoinRequest) => ({
+  id: request._id,
+  chatId: request.chatId,
+  user: request.userId,
+  inviteId: request.inviteId,
+  message: request.message,
+  status: request.status,
+  reviewedBy: request.reviewedBy,
+  reviewedAt: request.reviewedAt,
+  reason: request.reason,
+  expiresAt: request.expiresAt,
+  createdAt: request.createdAt,
+});
+
+// Members who may approve requests, i.e. who may add members anyway. Usually only the owner
+// and some admins, so only they are checked unless regular members may add members too.
+export const getReviewerIds = (chat: IChat): string[] => {
+  const candidates = chat.memberPermissions.includes(GroupPermission.ADD_MEMBERS)
+    ? chat.participants
+    : [chat.owner, ...chat.admins.map((admin) => admin.userId)];
+
+  return candidates
+    .filter(Boolean)
+    .map((candidate) => candidate!.toString())
+    .filter((candidateId) => hasPermission(chat, candidateId, GroupPermission.ADD_MEMBERS));
+};
+
+// Tell a group's reviewers about a change to its queue, so every admin's view stays current
+export const notifyReviewers = (io: SocketIOServer | undefined, chat: IChat, event: string, payload: object): void => {
+  const rooms = getReviewerIds(chat).map((reviewerId) => `user:${reviewerId}`);
+  if (io && rooms.length > 0) {
+    io.to(rooms).emit(event, payload);
+  }
+};
+
+export const createJoinRequest = async (
+  chat: IChat,
+  userId: string,
+  options: { inviteId?: string; message?: string },
+  io?: SocketIOServer
+): Promise<IJoinRequest> => {
+  const existing = await JoinRequest.findOne({
+    chatId: chat._id,
+    userId,
+    status: JoinRequestStatus.PENDING,
+    expiresAt: { $gt: new Date() },
+  });
+  if (existing) {
+    throw new AppError('You already asked to join this group', 409);
+  }
+
+  // A pending request past its expiry that the job has not reached yet would block the new one
+  await JoinRequest.updateMany(
+    { chatId: chat._id, userId, status: JoinRequestStatus.PENDING },
+    { status: JoinRequestStatus.EXPIRED }
+  );
+
+  const request = await JoinRequest.create({
+    chatId: chat._id,
+    userId,
+    inviteId: options.inviteId,
+    message: options.message,
+    expiresAt: new Date(Date.now() + JOIN_REQUEST_EXPIRES_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  // Reviewers load the rest of the requester's profile, as privacy allows, from the queue
+  await request.populate('userId', 'username');
+  notifyReviewers(io, chat, 'join_request_created', {
+    chatId: chat._id,
+    request: formatJoinRequest(request),
+  });
+
+  return request;
+};
+
+// Expire pending requests nobody reviewed in time and tell both sides
+export const expireJoinRequests = async (io: SocketIOServer): Promise<void> => {
+  const requests = await JoinRequest.find({
+    status: JoinRequestStatus.PENDING,
+    expiresAt: { $lte: new Date() },
+  }).limit(500);
+
+  if (requests.length === 0) {
+    return;
+  }
+
+  const chatIds = [...new Set(requests.map((request) => request.chatId.toString()))];
+  const chats = await Chat.find({ _id: { $in: chatIds } });
+  const chatsById = new Map(chats.map((chat) => [chat._id.toString(), chat]));
+
+  for (const request of requests) {
+    const expired = await JoinRequest.findOneAndUpdate(
+      { _id: request._id, status: JoinRequestStatus.PENDING },
+      { status: JoinRequestStatus.EXPIRED }
+    );
+    if (!expired) {
+      continue;
+    }
+
+    io.to(`user:${request.userId}`).emit('join_request_expired', {
+      chatId: request.chatId,
+      requestId: request._id,
+    });
+
+    const chat = chatsById.get(request.chatId.toString());
+    if (chat) {
+      notifyReviewers(io, chat, 'join_request_resolved', {
+        chatId: request.chatId,
+        requestId: request._id,
+        status: JoinRequestStatus.EXPIRED,
+      });
+    }
+  }
+
+  logger.info(`Expired ${requests.length} join request(s)`);
+};
@@ -0,0 +1,316 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Chat, { GroupPermission } from './chat.model';
+import JoinRequest, { IJoinRequest, JoinRequestStatus } from './joinRequest.model';
+import { createJoinRequest, formatJoinRequest, notifyReviewers } from './joinRequest.service';
+import { addJoinedParticipant } from './membership.service';
+import { claimInviteUse, releaseInviteUse } from './invite.service';
+import { assertPermission, isParticipant } from './permissions.policy';
+import { IUser } from '../users/user.model';
+import { loadPrivacyViewer, redactUser, PUBLIC_USER_FIELDS } from '../users/privacy.policy';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+
+// Helper function to load a group whose join requests the user may review
+const findReviewableGroup = async (chatId: string, userId: string) => {
+  const chat = await Chat.findOne({
+    _id: chatId,
+    participants: userId,
+    isGroup: true,
+  });
+
+  if (!chat) {
+    throw new AppError('Group chat not found', 404);
+  }
+
+  assertPermission(chat, userId, GroupPermission.ADD_MEMBERS, 'You cannot review join requests for this group');
+  return chat;
+};
+
+// Helper function to match a request that is still waiting for review
+const pendingRequestFilter = (chatId: string, requestId: string) => ({
+  _id: requestId,
+  chatId,
+  status: JoinRequestStatus.PENDING,
+  expiresAt: { $gt: new Date() },
+});
+
+// Helper function to close a pending request. Only one reviewer can win if two act at once.
+const resolvePendingRequest = async (
+  chatId: string,
+  requestId: string,
+  update: Partial<IJoinRequest>
+): Promise<IJoinRequest> => {
+  const request = mongoose.isValidObjectId(requestId)
+    ? await JoinRequest.findOneAndUpdate(pendingRequestFilter(chatId, requestId), update, { new: true })
+    : null;
+
+  if (!request) {
+    throw new AppError('Join request not found', 404);
+  }
+
+  return request;
+};
+
+export const requestToJoin = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const { message } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = mongoose.isValidObjectId(id)
+      ? await Chat.findOne({ _id: id, isGroup: true, isChannel: { $ne: true }, isDiscoverable: true })
+      : null;
+
+    if (!chat) {
+      throw new AppError('Group chat not found', 404);
+    }
+
+    if (isParticipant(chat, userId)) {
+      throw new AppError('You are already a participant of this group', 409);
+    }
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    const request = await createJoinRequest(chat, userId, { message }, io);
+
+    res.status(201).json({
+      success: true,
+      message: 'Join request sent',
+      data: { request: formatJoinRequest(request) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getJoinRequests = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findReviewableGroup(id, userId);
+
+    const requests = await JoinRequest.find({
+      chatId: chat._id,
+      status: JoinRequestStatus.PENDING,
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ createdAt: 1 })
+      .populate('userId', PUBLIC_USER_FIELDS);
+
+    // Requesters were populated above
+    const requester = (request: IJoinRequest) => request.userId as unknown as IUser;
+    const viewer = await loadPrivacyViewer(
+      userId,
+      requests.map((request) => requester(request)._id.toString())
+    );
+
+    res.json({
+      success: true,
+      data: {
+        requests: requests.map((request) => ({
+          ...formatJoinRequest(request),
+          user: redactUser(requester(request), viewer),
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const approveJoinRequest = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id, requestId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findReviewableGroup(id, userId);
+    const pending = mongoose.isValidObjectId(requestId)
+      ? await JoinRequest.findOne(pendingRequestFilter(chat._id.toString(), requestId)).select('inviteId')
+      : null;
+
+    if (!pending) {
+      throw new AppError('Join request not found', 404);
+    }
+
+    // Approved joins through a link count towards its uses, so the link must still be usable
+    const inviteId = pending.inviteId;
+    if (inviteId && !(await claimInviteUse(inviteId))) {
+      throw new AppError('The invite link for this request is no longer valid', 409);
+    }
+
+    let request: IJoinRequest;
+    try {
+      request = await resolvePendingRequest(chat._id.toString(), requestId, {
+        status: JoinRequestStatus.APPROVED,
+        reviewedBy: new mongoose.Types.ObjectId(userId),
+        reviewedAt: new Date(),
+      });
+    } catch (error) {
+      // Resolved by someone else in the meantime
+      if (inviteId) {
+        await releaseInviteUse(inviteId);
+      }
+      throw error;
+    }
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    const requesterId = request.userId.toString();
+
+    const updatedChat = await addJoinedParticipant(chat._id.toString(), requesterId, io);
+
+    // The group was deleted in the meantime; give the use back
+    if (!updatedChat) {
+      if (inviteId) {
+        await releaseInviteUse(inviteId);
+      }
+      throw new AppError('Group chat not found', 404);
+    }
+
+    io?.to(`user:${requesterId}`).emit('join_request_approved', {
+      chatId: chat._id,
+      requestId: request._id,
+    });
+    notifyReviewers(io, chat, 'join_request_resolved', {
+      chatId: chat._id,
+      requestId: request._id,
+      status: request.status,
+    });
+
+    res.json({
+      success: true,
+      message: 'Join request approved',
+      data: { request: formatJoinRequest(request) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const rejectJoinRequest = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id, requestId } = req.params;
+    const userId = req.user?.id;
+    const { reason } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await findReviewableGroup(id, userId);
+    const request = await resolvePendingRequest(chat._id.toString(), requestId, {
+      status: JoinRequestStatus.REJECTED,
+      reviewedBy: new mongoose.Types.ObjectId(userId),
+      reviewedAt: new Date(),
+      reason: reason || undefined,
+    });
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+
+    io?.to(`user:${request.userId}`).emit('join_request_rejected', {
+      chatId: chat._id,
+      requestId: request._id,
+      reason: request.reason,
+    });
+    notifyReviewers(io, chat, 'join_request_resolved', {
+      chatId: chat._id,
+      requestId: request._id,
+      status: request.status,
+    });
+
+    res.json({
+      success: true,
+      message: 'Join request rejected',
+      data: { request: formatJoinRequest(request) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getMyJoinRequests = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const requests = await JoinRequest.find({
+      userId,
+      status: JoinRequestStatus.PENDING,
+      expiresAt: { $gt: new Date() },
+    })
+      .sort({ createdAt: -1 })
+      .populate('chatId', 'name avatar');
+
+    res.json({
+      success: true,
+      data: {
+        requests: requests.map((request) => ({
+          id: request._id,
+          chat: request.chatId,
+          inviteId: request.inviteId,
+          message: request.message,
+          status: request.status,
+          expiresAt: request.expiresAt,
+          createdAt: request.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const cancelJoinRequest = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { requestId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const request = mongoose.isValidObjectId(requestId)
+      ? await JoinRequest.findOneAndUpdate(
+        { _id: requestId, userId, status: JoinRequestStatus.PENDING },
+        { status: JoinRequestStatus.CANCELLED }
+      )
+      : null;
+
+    if (!request) {
+      throw new AppError('Join request not found', 404);
+    }
+
+    const chat = await Chat.findById(request.chatId);
+    if (chat) {
+      const io = req.app.get('io') as SocketIOServer | undefined;
+      notifyReviewers(io, chat, 'join_request_resolved', {
+        chatId: chat._id,
+        requestId: request._id,
+        status: JoinRequestStatus.CANCELLED,
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Join request cancelled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,58 @@
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import Chat, { IChat } from './chat.model';
+import User from '../users/user.model';
+import { initializeReadPointers } from './chatMember.service';
+
+// Add a user who asked to join (through an invite link, an approved join request or by
+// subscribing to a channel) to a group. Current members are told right away, except in channels
+// where subscribers are not announced, and the user's open sockets join the chat room. Earlier
+// messages do not count as unread for them.
+export const addJoinedParticipant = async (chatId: string, userId: string, io?: SocketIOServer) => {
+  const chat = await Chat.findOneAndUpdate(
+    { _id: chatId, isGroup: true },
+    { $addToSet: { participants: userId } },
+    { new: true }
+  );
+
+  if (chat) {
+    await initializeReadPointers(chatId, [userId]);
+  }
+
+  if (chat && io) {
+    if (!chat.isChannel) {
+      const user = await User.findById(userId).select('username');
+      io.to(`chat:${chatId}`).emit('participant_joined', {
+        chatId,
+        userId,
+        username: user?.username,
+      });
+    }
+    io.in(`user:${userId}`).socketsJoin(`chat:${chatId}`);
+    io.to(`user:${userId}`).emit('chat_joined', { chatId });
+  }
+
+  return chat;
+};
+
+// Take a user out of a group they left or were removed from. The rest of the group is told,
+// except in channels, and the user's open sockets leave the chat room.
+export const announceParticipantRemoved = (io: SocketIOServer, chat: IChat, userId: string, removedBy: string) => {
+  const chatId = chat._id.toString();
+
+  if (!chat.isChannel) {
+    io.to(`chat:${chatId}`).emit('participant_removed', { chatId, userId, removedBy });
+  }
+  io.to(`user:${userId}`).emit('chat_removed', { chatId });
+  io.in(`user:${userId}`).socketsLeave(`chat:${chatId}`);
+};
+
+// Tell everyone in a deleted chat that it is gone and empty its chat room
+export const announceChatDeleted = (
+  io: SocketIOServer,
+  chatId: string,
+  participantIds: (string | mongoose.Types.ObjectId)[]
+) => {
+  io.to(participantIds.map((participantId) => `user:${participantId}`)).emit('chat_removed', { chatId });
+  io.in(`chat:${chatId}`).socketsLeave(`chat:${chatId}`);
+};
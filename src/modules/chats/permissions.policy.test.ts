@@ -0,0 +1,84 @@
+import mongoose from 'mongoose';
+import Chat, { GroupPermission, GroupRole } from './chat.model';
+import {
+  assertPermission,
+  canPostMessages,
+  getMemberPermissions,
+  getMemberRole,
+  outranks,
+  releaseGroupRoles,
+} from './permissions.policy';
+
+const ownerId = new mongoose.Types.ObjectId();
+const adminId = new mongoose.Types.ObjectId();
+const otherAdminId = new mongoose.Types.ObjectId();
+const memberId = new mongoose.Types.ObjectId();
+const outsiderId = new mongoose.Types.ObjectId();
+
+const group = (overrides: Record<string, unknown> = {}) =>
+  new Chat({
+    isGroup: true,
+    name: 'Group',
+    participants: [ownerId, adminId, otherAdminId, memberId],
+    owner: ownerId,
+    admins: [
+      { userId: adminId, permissions: [GroupPermission.REMOVE_MEMBERS] },
+      { userId: otherAdminId, permissions: [GroupPermission.PIN_MESSAGES] },
+    ],
+    memberPermissions: [GroupPermission.ADD_MEMBERS],
+    ...overrides,
+  });
+
+describe('group permissions', () => {
+  it('derives roles from ownership and the admin list', () => {
+    const chat = group();
+
+    expect(getMemberRole(chat, ownerId.toString())).toBe(GroupRole.OWNER);
+    expect(getMemberRole(chat, adminId.toString())).toBe(GroupRole.ADMIN);
+    expect(getMemberRole(chat, memberId.toString())).toBe(GroupRole.MEMBER);
+    expect(getMemberRole(chat, outsiderId.toString())).toBeNull();
+  });
+
+  it('ranks the owner above admins and admins above members', () => {
+    const chat = group();
+
+    expect(outranks(chat, ownerId.toString(), adminId.toString())).toBe(true);
+    expect(outranks(chat, adminId.toString(), memberId.toString())).toBe(true);
+    expect(outranks(chat, adminId.toString(), otherAdminId.toString())).toBe(false);
+    expect(outranks(chat, adminId.toString(), ownerId.toString())).toBe(false);
+    expect(outranks(chat, memberId.toString(), memberId.toString())).toBe(false);
+    expect(outranks(chat, ownerId.toString(), outsiderId.toString())).toBe(false);
+  });
+
+  it('gives admins only the permissions they were granted', () => {
+    const chat = group();
+
+    expect(getMemberPermissions(chat, ownerId.toString())).toEqual(Object.values(GroupPermission));
+    expect(getMemberPermissions(chat, adminId.toString())).toEqual([GroupPermission.REMOVE_MEMBERS]);
+    expect(getMemberPermissions(chat, memberId.toString())).toEqual([GroupPermission.ADD_MEMBERS]);
+    expect(getMemberPermissions(chat, outsiderId.toString())).toEqual([]);
+    expect(() => assertPermission(chat, otherAdminId.toString(), GroupPermission.REMOVE_MEMBERS)).toThrow(
+      expect.objectContaining({ statusCode: 403 })
+    );
+  });
+
+  it('lets only the owner and admins post in channels', () => {
+    const channel = group({ isChannel: true });
+
+    expect(canPostMessages(channel, ownerId.toString())).toBe(true);
+    expect(canPostMessages(channel, adminId.toString())).toBe(true);
+    expect(canPostMessages(channel, memberId.toString())).toBe(false);
+    expect(canPostMessages(group(), memberId.toString())).toBe(true);
+    expect(canPostMessages(group(), outsiderId.toString())).toBe(false);
+  });
+
+  it('hands the group to the longest-serving admin when the owner leaves', () => {
+    const chat = group();
+    chat.participants = chat.participants.filter((participant) => !participant.equals(ownerId));
+
+    releaseGroupRoles(chat, ownerId.toString());
+
+    expect(chat.owner?.toString()).toBe(adminId.toString());
+    expect(chat.admins.map((admin) => admin.userId.toString())).toEqual([otherAdminId.toString()]);
+  });
+});
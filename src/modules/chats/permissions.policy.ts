@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import Chat, { IChat, GroupPermission, GroupRole } from './chat.model';
+import { AppError } from '../../utils/errors';
+import logger from '../../utils/logger';
+
+export const ALL_GROUP_PERMISSIONS = Object.values(GroupPermission);
+
+const ROLE_RANK: Record<GroupRole, number> = {
+  [GroupRole.OWNER]: 2,
+  [GroupRole.ADMIN]: 1,
+  [GroupRole.MEMBER]: 0,
+};
+
+// Helper function to read an ID whether or not the reference was populated
+type IdReference = mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId } | null | undefined;
+
+const toId = (value: IdReference): string =>
+  (value && '_id' in value ? value._id : value)?.toString() || '';
+
+export const isParticipant = (chat: IChat, userId: string): boolean =>
+  chat.participants.some((participant) => toId(participant) === userId);
+
+export const getMemberRole = (chat: IChat, userId: string): GroupRole | null => {
+  if (!isParticipant(chat, userId)) {
+    return null;
+  }
+  if (chat.isGroup && toId(chat.owner) === userId) {
+    return GroupRole.OWNER;
+  }
+  if (chat.isGroup && (chat.admins || []).some((admin) => toId(admin.userId) === userId)) {
+    return GroupRole.ADMIN;
+  }
+  return GroupRole.MEMBER;
+};
+
+export const getMemberPermissions = (chat: IChat, userId: string): GroupPermission[] => {
+  const role = getMemberRole(chat, userId);
+
+  // In one-to-one chats both sides can pin, but not delete each other's messages
+  if (!chat.isGroup) {
+    return role ? [GroupPermission.PIN_MESSAGES] : [];
+  }
+
+  switch (role) {
+    case GroupRole.OWNER:
+      return ALL_GROUP_PERMISSIONS;
+    case GroupRole.ADMIN:
+      return chat.admins.find((admin) => toId(admin.userId) === userId)?.permissions || [];
+    case GroupRole.MEMBER:
+      return chat.memberPermissions || [];
+    default:
+      return [];
+  }
+};
+
+export const hasPermission = (chat: IChat, userId: string, permission: GroupPermission): boolean =>
+  getMemberPermissions(chat, userId).includes(permission);
+
+export const assertPermission = (
+  chat: IChat,
+  userId: string,
+  permission: GroupPermission,
+  message: string = 'You do not have permission to do this in this group'
+): void => {
+  if (!hasPermission(chat, userId, permission)) {
+    throw new AppError(message, 403);
+  }
+};
+
+// In channels only the owner and admins post; subscribers can only read and react
+export const canPostMessages = (chat: IChat, userId: string): boolean => {
+  const role = getMemberRole(chat, userId);
+  return !!role && (!chat.isChannel || role !== GroupRole.MEMBER);
+};
+
+export const assertOwner = (chat: IChat, userId: string, message: string): void => {
+  if (getMemberRole(chat, userId) !== GroupRole.OWNER) {
+    throw new AppError(message, 403);
+  }
+};
+
+// Whether the actor's role is above the target's, e.g. to remove them from the group
+export const outranks = (chat: IChat, actorId: string, targetId: string): boolean => {
+  const actorRole = getMemberRole(chat, actorId);
+  const targetRole = getMemberRole(chat, targetId);
+  return !!actorRole && !!targetRole && ROLE_RANK[actorRole] > ROLE_RANK[targetRole];
+};
+
+// Drop the roles of a user who has left a group. An owner hands the group over to the
+// longest-serving admin, or to the longest-standing member when there are no admins.
+// Call after removing the user from the participants.
+export const releaseGroupRoles = (chat: IChat, userId: string): void => {
+  chat.admins = chat.admins.filter((admin) => toId(admin.userId) !== userId);
+
+  if (chat.isGroup && toId(chat.owner) === userId) {
+    const successor = chat.admins[0]?.userId ?? chat.participants[0];
+    chat.owner = successor;
+    chat.admins = chat.admins.filter((admin) => toId(admin.userId) !== toId(successor));
+  }
+};
+
+// Groups used to have a single `admin`. That user becomes the owner.
+export const migrateGroupAdmins = async (): Promise<void> => {
+  const result = await Chat.collection.updateMany({ admin: { $exists: true } }, [
+    { $set: { owner: { $ifNull: ['$owner', '$admin'] } } },
+    { $unset: 'admin' },
+  ]);
+
+  if (result.modifiedCount > 0) {
+    logger.info(`Converted the admin of ${result.modifiedCount} group(s) to owner`);
+  }
+};
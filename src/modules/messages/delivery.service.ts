@@ -0,0 +1,41 @@
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import { IChat } from '../chats/chat.model';
+import { IMessage } from './message.model';
+import { toBroadcastMessage } from './messagePrivacy.policy';
+
+// Send a new message to everyone in its chat room. Members' sockets join their chat rooms when
+// they connect or join; for groups and one-to-one chats every member is added to the room again
+// first, in case they were added to the chat while connected. Channels rely on the room alone so
+// sending costs the same however many subscribers there are.
+export const deliverMessage = (io: SocketIOServer, chat: IChat, message: IMessage): void => {
+  const room = `chat:${chat._id}`;
+
+  if (!chat.isChannel) {
+    io.in(chat.participants.map((participant) => `user:${participant}`)).socketsJoin(room);
+  }
+
+  io.to(room).emit('new_message', { message: toBroadcastMessage(message) });
+};
+
+// Tell the other members how far a user has read, and sync the user's own devices. Channel
+// subscribers stay anonymous, so channels only get the sync.
+export const emitChatRead = (
+  io: SocketIOServer,
+  chat: IChat,
+  reader: { userId: string; username: string },
+  lastReadMessageId: mongoose.Types.ObjectId
+): void => {
+  const chatId = chat._id.toString();
+
+  if (!chat.isChannel) {
+    io.to(`chat:${chatId}`).except(`user:${reader.userId}`).emit('messages_read', {
+      chatId,
+      userId: reader.userId,
+      username: reader.username,
+      lastReadMessageId,
+    });
+  }
+
+  io.to(`user:${reader.userId}`).emit('chat_read', { chatId, lastReadMessageId });
+};
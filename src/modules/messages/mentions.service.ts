@@ -0,0 +1,30 @@
+import mongoose from 'mongoose';
+import { IChat } from '../chats/chat.model';
+import User from '../users/user.model';
+
+const MENTION_PATTERN = /@([^\s@]{3,30})/g;
+const TRAILING_PUNCTUATION = /[.,!?;:)\]]+$/;
+
+// Participants mentioned by @username in a message. Channel posts mention nobody, since
+// subscribers are not addressed individually.
+export const findMentionedUserIds = async (
+  chat: IChat,
+  content?: string
+): Promise<mongoose.Types.ObjectId[] | undefined> => {
+  if (chat.isChannel || !content) {
+    return undefined;
+  }
+
+  // "@alice," may name the user "alice" or the user "alice,"; look up both
+  const usernames = new Set<string>();
+  for (const [, name] of content.matchAll(MENTION_PATTERN)) {
+    usernames.add(name);
+    usernames.add(name.replace(TRAILING_PUNCTUATION, ''));
+  }
+  if (usernames.size === 0) {
+    return undefined;
+  }
+
+  const users = await User.find({ _id: { $in: chat.participants }, username: { $in: [...usernames] } }).select('_id');
+  return users.length > 0 ? users.map((user) => user._id as mongoose.Types.ObjectId) : undefined;
+};
@@ -10,12 +10,14 @@ export interface IMessage extends Document {
   fileUrl?: string;
   fileName?: string;
   fileSize?: number;
-  readBy: mongoose.Types.ObjectId[];
+  readBy: mongoose.Types.ObjectId[]; // No longer updated; read state is kept per chat member
+  mentions?: mongoose.Types.ObjectId[];
   reactions: {
     userId: mongoose.Types.ObjectId;
     emoji: string;
   }[];
   replyTo?: mongoose.Types.ObjectId;
+  viewCount?: number; // Channel posts only
   createdAt: Date;
   updatedAt: Date;
 }
@@ -65,6 +67,10 @@ const messageSchema = new Schema<IMessage>(
         ref: 'User',
       },
     ],
+    mentions: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+      default: undefined,
+    },
     reactions: [
       {
         userId: {
@@ -82,6 +88,9 @@ const messageSchema = new Schema<IMessage>(
       type: Schema.Types.ObjectId,
       ref: 'Message',
     },
+    viewCount: {
+      type: Number,
+    },
   },
   {
     timestamps: true,
@@ -89,6 +98,7 @@ const messageSchema = new Schema<IMessage>(
 );
 
 messageSchema.index({ chatId: 1, createdAt: -1 });
+messageSchema.index({ chatId: 1, _id: 1 });
 messageSchema.index({ senderId: 1 });
 messageSchema.index({ content: 'text' });
 
@@ -0,0 +1,53 @@
+import mongoose from 'mongoose';
+import { IMessage } from './message.model';
+import { IUserPrivacy } from '../users/user.model';
+import { loadPrivacyViewer, redactUser } from '../users/privacy.policy';
+
+interface PopulatedUser {
+  _id: mongoose.Types.ObjectId;
+  username: string;
+  privacy?: Partial<IUserPrivacy>;
+}
+
+type PlainMessage = Record<string, unknown> & {
+  senderId: unknown;
+  reactions?: { userId: unknown; emoji: string }[];
+};
+
+const isPopulatedUser = (value: unknown): value is PopulatedUser =>
+  typeof value === 'object' && value !== null && 'username' in value;
+
+// Copies of the messages with their sender and the users who reacted redacted for the viewer.
+// Populate those users with PUBLIC_USER_FIELDS first.
+export const redactMessages = async (messages: IMessage[], viewerId: string): Promise<PlainMessage[]> => {
+  const users = messages
+    .flatMap((message) => [message.senderId, ...message.reactions.map((reaction) => reaction.userId)])
+    .filter(isPopulatedUser);
+  const viewer = await loadPrivacyViewer(viewerId, users.map((user) => user._id.toString()));
+
+  return messages.map((message) => {
+    const plain = message.toObject() as PlainMessage;
+    if (isPopulatedUser(plain.senderId)) {
+      plain.senderId = redactUser(plain.senderId, viewer);
+    }
+    plain.reactions = plain.reactions?.map((reaction) =>
+      isPopulatedUser(reaction.userId) ? { ...reaction, userId: redactUser(reaction.userId, viewer) } : reaction
+    );
+    return plain;
+  });
+};
+
+export const redactMessage = async (message: IMessage, viewerId: string): Promise<PlainMessage> => {
+  const [redacted] = await redactMessages([message], viewerId);
+  return redacted;
+};
+
+// Broadcasts reach many viewers at once, so they carry only the sender's ID and username;
+// clients load the rest of the profile through the API, which applies privacy settings
+export const toBroadcastMessage = (message: IMessage): PlainMessage => {
+  const plain = message.toObject() as PlainMessage;
+  if (isPopulatedUser(plain.senderId)) {
+    plain.senderId = { _id: plain.senderId._id, username: plain.senderId.username };
+  }
+  return plain;
+};
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A subscriber having seen a channel post, so each subscriber counts once towards its views
+export interface IMessageView extends Document {
+  messageId: mongoose.Types.ObjectId;
+  chatId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const messageViewSchema = new Schema<IMessageView>(
+  {
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+      required: true,
+    },
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+messageViewSchema.index({ messageId: 1, userId: 1 }, { unique: true });
+
+export default mongoose.model<IMessageView>('MessageView', messageViewSchema);
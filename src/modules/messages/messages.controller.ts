@@ -1,10 +1,21 @@
 import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
 import { Server as SocketIOServer } from 'socket.io';
 import Message from './message.model';
-import Chat from '../chats/chat.model';
+import MessageView from './messageView.model';
+import Chat, { GroupPermission } from '../chats/chat.model';
+import { canPostMessages, hasPermission } from '../chats/permissions.policy';
+import { deliverMessage, emitChatRead } from './delivery.service';
+import { findMentionedUserIds } from './mentions.service';
+import { markChatRead, unarchiveOnNewMessage } from '../chats/chatMember.service';
 import { AuthRequest } from '../../types';
 import { AppError } from '../../utils/errors';
 import { MessageStatus, MessageType } from '../../types';
+import { assertCanMessageChat } from '../users/block.service';
+import { PUBLIC_USER_FIELDS } from '../users/privacy.policy';
+import { redactMessage, redactMessages } from './messagePrivacy.policy';
+
+const DUPLICATE_KEY_ERROR = 11000;
 
 export const sendMessage = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -25,6 +36,12 @@ export const sendMessage = async (req: AuthRequest, res: Response, next: NextFun
       throw new AppError('Chat not found or access denied', 404);
     }
 
+    await assertCanMessageChat(chat, userId);
+
+    if (!canPostMessages(chat, userId)) {
+      throw new AppError('Only channel admins can post in this channel', 403);
+    }
+
     // Validate content for text messages
     if (type === MessageType.TEXT && !content) {
       throw new AppError('Content is required for text messages', 400);
@@ -45,42 +62,30 @@ export const sendMessage = async (req: AuthRequest, res: Response, next: NextFun
       fileName,
       fileSize,
       replyTo,
+      mentions: await findMentionedUserIds(chat, content),
+      viewCount: chat.isChannel ? 0 : undefined,
     });
 
     // Update chat's last message
     chat.lastMessage = message._id;
+    chat.lastActivityAt = message.createdAt;
     await chat.save();
+    await unarchiveOnNewMessage(chatId, userId);
+    await markChatRead(chatId, userId, [message._id.toString()]);
 
-    await message.populate('senderId', 'username avatar');
+    await message.populate('senderId', PUBLIC_USER_FIELDS);
     await message.populate('replyTo');
 
     // Emit Socket.IO event for real-time updates
     const io = req.app.get('io') as SocketIOServer | undefined;
     if (io) {
-      // Ensure all participants are in the chat room
-      const chatParticipants = chat.participants.map((p: any) => 
-        p.toString ? p.toString() : p
-      );
-      
-      // Get all connected sockets and add participants to the room
-      const sockets = await io.fetchSockets();
-      for (const socket of sockets) {
-        const socketUser = (socket as any).data?.user as { id?: string } | undefined;
-        if (socketUser?.id && chatParticipants.includes(socketUser.id)) {
-          socket.join(`chat:${chatId}`);
-        }
-      }
-
-      // Emit to all participants in the chat room
-      io.to(`chat:${chatId}`).emit('new_message', {
-        message,
-      });
+      deliverMessage(io, chat, message);
     }
 
     res.status(201).json({
       success: true,
       message: 'Message sent successfully',
-      data: { message },
+      data: { message: await redactMessage(message, userId) },
     });
   } catch (error) {
     next(error);
@@ -110,7 +115,7 @@ export const getMessages = async (req: AuthRequest, res: Response, next: NextFun
     }
 
     const messages = await Message.find({ chatId })
-      .populate('senderId', 'username avatar')
+      .populate('senderId', PUBLIC_USER_FIELDS)
       .populate('replyTo')
       .sort({ createdAt: -1 })
       .limit(limit)
@@ -121,7 +126,7 @@ export const getMessages = async (req: AuthRequest, res: Response, next: NextFun
     res.json({
       success: true,
       data: {
-        messages: messages.reverse(), // Reverse to show oldest first
+        messages: await redactMessages(messages.reverse(), userId), // Reverse to show oldest first
         pagination: {
           page,
           limit,
@@ -144,7 +149,7 @@ export const getMessageById = async (req: AuthRequest, res: Response, next: Next
       throw new AppError('User not authenticated', 401);
     }
 
-    const message = await Message.findById(id).populate('senderId', 'username avatar').populate('replyTo');
+    const message = await Message.findById(id).populate('senderId', PUBLIC_USER_FIELDS).populate('replyTo');
 
     if (!message) {
       throw new AppError('Message not found', 404);
@@ -162,7 +167,7 @@ export const getMessageById = async (req: AuthRequest, res: Response, next: Next
 
     res.json({
       success: true,
-      data: { message },
+      data: { message: await redactMessage(message, userId) },
     });
   } catch (error) {
     next(error);
@@ -198,13 +203,16 @@ export const updateMessage = async (req: AuthRequest, res: Response, next: NextF
     message.content = content;
     await message.save();
 
-    await message.populate('senderId', 'username avatar');
+    // The chat list previews the last message, so an edit to it is a change to the chat
+    await Chat.updateOne({ _id: message.chatId, lastMessage: message._id }, { $set: { updatedAt: new Date() } });
+
+    await message.populate('senderId', PUBLIC_USER_FIELDS);
     await message.populate('replyTo');
 
     res.json({
       success: true,
       message: 'Message updated successfully',
-      data: { message },
+      data: { message: await redactMessage(message, userId) },
     });
   } catch (error) {
     next(error);
@@ -236,14 +244,21 @@ export const deleteMessage = async (req: AuthRequest, res: Response, next: NextF
       throw new AppError('Access denied', 403);
     }
 
-    // Only sender can delete (or admin in group chats)
-    if (message.senderId.toString() !== userId && chat.admin?.toString() !== userId) {
-      throw new AppError('Only sender or admin can delete message', 403);
+    // Only the sender can delete, or in groups anyone allowed to delete others' messages
+    if (message.senderId.toString() !== userId && !(chat.isGroup && hasPermission(chat, userId, GroupPermission.DELETE_MESSAGES))) {
+      throw new AppError('You cannot delete this message', 403);
     }
 
     await Message.findByIdAndDelete(id);
+    await MessageView.deleteMany({ messageId: id });
+
+    if (chat.pinnedMessages.some((pinnedId) => pinnedId.toString() === id)) {
+      chat.pinnedMessages = chat.pinnedMessages.filter((pinnedId) => pinnedId.toString() !== id);
+      await chat.save();
+    }
 
-    // Update chat's last message if needed
+    // Update chat's last message if needed. Saving marks the chat as changed, so clients syncing
+    // their chat list pick up the new preview.
     if (chat.lastMessage?.toString() === id) {
       const lastMessage = await Message.findOne({ chatId: message.chatId })
         .sort({ createdAt: -1 });
@@ -263,6 +278,7 @@ export const deleteMessage = async (req: AuthRequest, res: Response, next: NextF
 export const markAsRead = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { chatId } = req.params;
+    const { messageId } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -279,22 +295,18 @@ export const markAsRead = async (req: AuthRequest, res: Response, next: NextFunc
       throw new AppError('Chat not found or access denied', 404);
     }
 
-    // Mark all unread messages in this chat as read
-    await Message.updateMany(
-      {
-        chatId,
-        senderId: { $ne: userId },
-        readBy: { $ne: userId },
-      },
-      {
-        $addToSet: { readBy: userId },
-        $set: { status: MessageStatus.READ },
-      }
-    );
+    // Everything up to the given message, or the whole chat, counts as read
+    const lastReadMessageId = await markChatRead(chatId, userId, messageId ? [messageId] : undefined);
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    if (io && lastReadMessageId) {
+      emitChatRead(io, chat, { userId, username: req.user!.username }, lastReadMessageId);
+    }
 
     res.json({
       success: true,
       message: 'Messages marked as read',
+      data: { lastReadMessageId },
     });
   } catch (error) {
     next(error);
@@ -329,14 +341,14 @@ export const searchMessages = async (req: AuthRequest, res: Response, next: Next
       chatId,
       content: { $regex: q, $options: 'i' },
     })
-      .populate('senderId', 'username avatar')
+      .populate('senderId', PUBLIC_USER_FIELDS)
       .sort({ createdAt: -1 })
       .limit(50);
 
     res.json({
       success: true,
       data: {
-        messages,
+        messages: await redactMessages(messages, userId),
       },
     });
   } catch (error) {
@@ -381,13 +393,13 @@ export const addReaction = async (req: AuthRequest, res: Response, next: NextFun
     message.reactions.push({ userId: userId as any, emoji });
     await message.save();
 
-    await message.populate('senderId', 'username avatar');
-    await message.populate('reactions.userId', 'username avatar');
+    await message.populate('senderId', PUBLIC_USER_FIELDS);
+    await message.populate('reactions.userId', PUBLIC_USER_FIELDS);
 
     res.json({
       success: true,
       message: 'Reaction added successfully',
-      data: { message },
+      data: { message: await redactMessage(message, userId) },
     });
   } catch (error) {
     next(error);
@@ -424,16 +436,185 @@ export const removeReaction = async (req: AuthRequest, res: Response, next: Next
     );
     await message.save();
 
-    await message.populate('senderId', 'username avatar');
-    await message.populate('reactions.userId', 'username avatar');
+    await message.populate('senderId', PUBLIC_USER_FIELDS);
+    await message.populate('reactions.userId', PUBLIC_USER_FIELDS);
 
     res.json({
       success: true,
       message: 'Reaction removed successfully',
-      data: { message },
+      data: { message: await redactMessage(message, userId) },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+
+// Helper function to load a message and its chat for pinning, checking the user may pin in it
+const findPinnableMessage = async (messageId: string, userId: string) => {
+  const message = await Message.findById(messageId);
+
+  if (!message) {
+    throw new AppError('Message not found', 404);
+  }
+
+  const chat = await Chat.findOne({
+    _id: message.chatId,
+    participants: userId,
+  });
+
+  if (!chat) {
+    throw new AppError('Access denied', 403);
+  }
+
+  if (!hasPermission(chat, userId, GroupPermission.PIN_MESSAGES)) {
+    throw new AppError('You cannot pin messages in this chat', 403);
+  }
+
+  return { message, chat };
+};
+
+export const pinMessage = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { message, chat } = await findPinnableMessage(id, userId);
+
+    await Chat.findByIdAndUpdate(chat._id, { $addToSet: { pinnedMessages: message._id } });
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    io?.to(`chat:${chat._id}`).emit('message_pinned', {
+      chatId: chat._id,
+      messageId: message._id,
+      pinnedBy: userId,
+    });
+
+    res.json({
+      success: true,
+      message: 'Message pinned successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unpinMessage = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { message, chat } = await findPinnableMessage(id, userId);
+
+    await Chat.findByIdAndUpdate(chat._id, { $pull: { pinnedMessages: message._id } });
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    io?.to(`chat:${chat._id}`).emit('message_unpinned', {
+      chatId: chat._id,
+      messageId: message._id,
+      unpinnedBy: userId,
+    });
+
+    res.json({
+      success: true,
+      message: 'Message unpinned successfully',
     });
   } catch (error) {
     next(error);
   }
 };
 
+// Count channel post views, once per subscriber. The client reports the posts it displayed.
+// Helper function to record that a user viewed channel posts and return the posts they had not
+// viewed before. Only views that did not exist yet are upserted. Concurrent first views of the
+// same post race on the unique index, and the losing upsert fails with a duplicate key error:
+// that view was recorded by the other request, so it is skipped rather than counted twice.
+const insertViews = async (
+  chatId: mongoose.Types.ObjectId,
+  userId: string,
+  postIds: mongoose.Types.ObjectId[]
+): Promise<mongoose.Types.ObjectId[]> => {
+  if (postIds.length === 0) {
+    return [];
+  }
+
+  const viewerId = new mongoose.Types.ObjectId(userId);
+  let upsertedIds: Record<number, unknown>;
+  try {
+    const result = await MessageView.bulkWrite(
+      postIds.map((postId) => ({
+        updateOne: {
+          filter: { messageId: postId, userId: viewerId },
+          update: { $setOnInsert: { chatId } },
+          upsert: true,
+        },
+      })),
+      { ordered: false }
+    );
+    upsertedIds = result.upsertedIds;
+  } catch (error) {
+    const duplicatesOnly =
+      error instanceof mongoose.mongo.MongoBulkWriteError &&
+      !error.err &&
+      [error.writeErrors].flat().every((writeError) => writeError.code === DUPLICATE_KEY_ERROR);
+    if (!duplicatesOnly) {
+      throw error;
+    }
+    upsertedIds = error.result.upsertedIds;
+  }
+
+  return Object.keys(upsertedIds).map((index) => postIds[Number(index)]);
+};
+
+export const recordViews = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { chatId } = req.params;
+    const userId = req.user?.id;
+    const { messageIds } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const chat = await Chat.findOne({
+      _id: chatId,
+      participants: userId,
+      isChannel: true,
+    });
+
+    if (!chat) {
+      throw new AppError('Channel not found or access denied', 404);
+    }
+
+    const posts = await Message.find({
+      _id: { $in: messageIds },
+      chatId,
+      senderId: { $ne: userId },
+    }).select('_id');
+
+    const newViews = await insertViews(chat._id, userId, posts.map((post) => post._id));
+
+    if (newViews.length > 0) {
+      await Message.updateMany({ _id: { $in: newViews } }, { $inc: { viewCount: 1 } });
+    }
+
+    const counts = await Message.find({ _id: { $in: messageIds }, chatId }).select('viewCount');
+
+    res.json({
+      success: true,
+      data: {
+        views: counts.map((post) => ({ messageId: post._id, viewCount: post.viewCount || 0 })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,20 +1,24 @@
 import { Router } from 'express';
 import * as messagesController from './messages.controller';
 import { validate } from '../../middlewares/validation.middleware';
-import { authMiddleware } from '../../middlewares/auth.middleware';
+import { authMiddleware, requireScope } from '../../middlewares/auth.middleware';
+import { ApiScope } from '../../types';
 import * as messagesValidation from './messages.validation';
 
 const router = Router();
 
-router.post('/', authMiddleware, validate(messagesValidation.sendMessageSchema), messagesController.sendMessage);
-router.get('/chat/:chatId', authMiddleware, messagesController.getMessages);
-router.get('/search/:chatId', authMiddleware, validate(messagesValidation.searchMessagesSchema), messagesController.searchMessages);
-router.get('/:id', authMiddleware, messagesController.getMessageById);
-router.put('/:id', authMiddleware, validate(messagesValidation.updateMessageSchema), messagesController.updateMessage);
-router.delete('/:id', authMiddleware, messagesController.deleteMessage);
-router.post('/:chatId/read', authMiddleware, messagesController.markAsRead);
-router.post('/:id/reactions', authMiddleware, validate(messagesValidation.addReactionSchema), messagesController.addReaction);
-router.delete('/:id/reactions', authMiddleware, messagesController.removeReaction);
+router.post('/', authMiddleware, requireScope(ApiScope.MESSAGES_WRITE), validate(messagesValidation.sendMessageSchema), messagesController.sendMessage);
+router.get('/chat/:chatId', authMiddleware, requireScope(ApiScope.MESSAGES_READ), messagesController.getMessages);
+router.get('/search/:chatId', authMiddleware, requireScope(ApiScope.MESSAGES_READ), validate(messagesValidation.searchMessagesSchema), messagesController.searchMessages);
+router.get('/:id', authMiddleware, requireScope(ApiScope.MESSAGES_READ), messagesController.getMessageById);
+router.put('/:id', authMiddleware, requireScope(ApiScope.MESSAGES_WRITE), validate(messagesValidation.updateMessageSchema), messagesController.updateMessage);
+router.delete('/:id', authMiddleware, requireScope(ApiScope.MESSAGES_WRITE), messagesController.deleteMessage);
+router.post('/:chatId/read', authMiddleware, requireScope(ApiScope.MESSAGES_WRITE), validate(messagesValidation.markAsReadSchema), messagesController.markAsRead);
+router.post('/:chatId/views', authMiddleware, requireScope(ApiScope.MESSAGES_WRITE), validate(messagesValidation.recordViewsSchema), messagesController.recordViews);
+router.post('/:id/reactions', authMiddleware, requireScope(ApiScope.MESSAGES_WRITE), validate(messagesValidation.addReactionSchema), messagesController.addReaction);
+router.delete('/:id/reactions', authMiddleware, requireScope(ApiScope.MESSAGES_WRITE), messagesController.removeReaction);
+router.post('/:id/pin', authMiddleware, requireScope(ApiScope.MESSAGES_WRITE), messagesController.pinMessage);
+router.delete('/:id/pin', authMiddleware, requireScope(ApiScope.MESSAGES_WRITE), messagesController.unpinMessage);
 
 export default router;
 
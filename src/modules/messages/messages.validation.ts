@@ -1,12 +1,15 @@
 import { z } from 'zod';
 import { MessageType } from '../../types';
 
+// Shared with the socket send_message event
+export const fileUrlSchema = z.string().url();
+
 export const sendMessageSchema = z.object({
   body: z.object({
     chatId: z.string().min(1, 'Chat ID is required'),
     content: z.string().optional(),
     type: z.nativeEnum(MessageType).optional().default(MessageType.TEXT),
-    fileUrl: z.string().url().optional(),
+    fileUrl: fileUrlSchema.optional(),
     fileName: z.string().optional(),
     fileSize: z.number().positive().optional(),
     replyTo: z.string().optional(),
@@ -40,4 +43,14 @@ export const addReactionSchema = z.object({
     emoji: z.string().min(1, 'Emoji is required'),
   }),
 });
+export const markAsReadSchema = z.object({
+  body: z.object({
+    messageId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid message ID').optional(),
+  }),
+});
 
+export const recordViewsSchema = z.object({
+  body: z.object({
+    messageIds: z.array(z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid message ID')).min(1).max(100),
+  }),
+});
@@ -1,10 +1,11 @@
 import { Response, NextFunction } from 'express';
+import Upload from './upload.model';
 import { AuthRequest } from '../../types';
 import { AppError } from '../../utils/errors';
 import { uploadSingle } from '../../utils/upload';
 
 export const uploadFile = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
-  uploadSingle(req as any, res, (err: any) => {
+  uploadSingle(req as any, res, async (err: any) => {
     if (err) {
       return next(err);
     }
@@ -13,6 +14,19 @@ export const uploadFile = async (req: AuthRequest, res: Response, next: NextFunc
       return next(new AppError('No file uploaded', 400));
     }
 
+    try {
+      // Remember who uploaded the file so it can be exported and purged with their account
+      await Upload.create({
+        userId: req.user?.id,
+        filename: req.file.filename,
+        originalName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        size: req.file.size,
+      });
+    } catch (error) {
+      return next(error);
+    }
+
     // Determine file type
     const imageMimes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
     const fileType = imageMimes.includes(req.file.mimetype) ? 'image' : 'file';
@@ -30,4 +44,3 @@ export const uploadFile = async (req: AuthRequest, res: Response, next: NextFunc
     });
   });
 };
-
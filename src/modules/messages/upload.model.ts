@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// A file stored in the upload directory, kept so a user's files can be exported and purged
+export interface IUpload extends Document {
+  userId: mongoose.Types.ObjectId;
+  filename: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const uploadSchema = new Schema<IUpload>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    filename: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    originalName: {
+      type: String,
+      required: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IUpload>('Upload', uploadSchema);
@@ -1,10 +1,11 @@
 import { Router } from 'express';
 import { uploadFile } from './upload.controller';
-import { authMiddleware } from '../../middlewares/auth.middleware';
+import { authMiddleware, requireScope } from '../../middlewares/auth.middleware';
+import { ApiScope } from '../../types';
 
 const router = Router();
 
-router.post('/upload', authMiddleware, uploadFile);
+router.post('/upload', authMiddleware, requireScope(ApiScope.FILES_WRITE), uploadFile);
 
 export default router;
 
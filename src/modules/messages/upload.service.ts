@@ -0,0 +1,74 @@
+import fs from 'fs';
+import path from 'path';
+import Upload from './upload.model';
+import User from '../users/user.model';
+import { uploadDir } from '../../utils/upload';
+import logger from '../../utils/logger';
+
+export interface UserFile {
+  filename: string;
+  originalName: string;
+}
+
+// Name of a file in the upload directory from its public URL, or null for anything else
+export const filenameFromUrl = (url?: string | null): string | null => {
+  if (!url || !url.startsWith('/uploads/')) {
+    return null;
+  }
+  const filename = path.basename(url);
+  return filename && filename === url.substring('/uploads/'.length) ? filename : null;
+};
+
+export const getUploadPath = (filename: string): string => path.resolve(uploadDir, filename);
+
+// Every stored file belonging to a user: their recorded uploads and avatar images. Message
+// attachments are not trusted, since a message can point at any file in the upload directory.
+export const findUserFiles = async (userId: string): Promise<UserFile[]> => {
+  const [uploads, user] = await Promise.all([
+    Upload.find({ userId }).select('filename originalName'),
+    User.findById(userId).select('avatar'),
+  ]);
+
+  const files = new Map<string, UserFile>();
+  for (const upload of uploads) {
+    files.set(upload.filename, { filename: upload.filename, originalName: upload.originalName });
+  }
+
+  const avatarFiles = (user?.avatar ? [user.avatar.small, user.avatar.medium, user.avatar.large] : [])
+    .map(filenameFromUrl)
+    .filter((filename): filename is string => !!filename && !files.has(filename));
+
+  // Avatar images are written by the server, but skip any that is recorded as someone else's upload
+  const ownedByOthers = new Set(
+    (await Upload.find({ filename: { $in: avatarFiles }, userId: { $ne: userId } }).select('filename')).map(
+      (upload) => upload.filename
+    )
+  );
+  for (const filename of avatarFiles) {
+    if (!ownedByOthers.has(filename)) {
+      files.set(filename, { filename, originalName: filename });
+    }
+  }
+
+  return [...files.values()];
+};
+
+// Delete a user's files from disk along with their upload records
+export const purgeUserFiles = async (userId: string): Promise<number> => {
+  const files = await findUserFiles(userId);
+
+  let removed = 0;
+  for (const file of files) {
+    try {
+      await fs.promises.unlink(getUploadPath(file.filename));
+      removed++;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn(`Failed to delete upload ${file.filename}:`, error);
+      }
+    }
+  }
+
+  await Upload.deleteMany({ userId });
+  return removed;
+};
@@ -0,0 +1,177 @@
+import { Response, NextFunction } from 'express';
+import bcrypt from 'bcryptjs';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import User from './user.model';
+import DataExport, { DataExportStatus, IDataExport } from './dataExport.model';
+import { getExportPath, processDataExport, requestDataExport } from './dataExport.service';
+import { cancelAccountDeletion, scheduleAccountDeletion } from './accountDeletion.service';
+import { disconnectSessionSockets } from '../../sockets/socket.handler';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+import logger from '../../utils/logger';
+
+// Helper function to shape an export for responses
+const formatExport = (dataExport: IDataExport) => ({
+  id: dataExport._id,
+  status: dataExport.status,
+  fileSize: dataExport.fileSize,
+  error: dataExport.error,
+  createdAt: dataExport.createdAt,
+  completedAt: dataExport.completedAt,
+  expiresAt: dataExport.expiresAt,
+});
+
+export const requestExport = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const dataExport = await requestDataExport(userId);
+
+    // Start right away; the background job picks it up if this process stops first
+    setImmediate(() => {
+      processDataExport(dataExport._id.toString()).catch((error) => {
+        logger.error(`Failed to process data export ${dataExport._id}:`, error);
+      });
+    });
+
+    res.status(202).json({
+      success: true,
+      message: 'Your data export is being prepared',
+      data: {
+        export: formatExport(dataExport),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getExports = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const exports = await DataExport.find({ userId }).sort({ createdAt: -1 }).limit(10);
+
+    res.json({
+      success: true,
+      data: {
+        exports: exports.map(formatExport),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const downloadExport = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { id } = req.params;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    if (!mongoose.isValidObjectId(id)) {
+      throw new AppError('Export not found', 404);
+    }
+
+    const dataExport = await DataExport.findOne({ _id: id, userId });
+    if (!dataExport) {
+      throw new AppError('Export not found', 404);
+    }
+
+    if (dataExport.status !== DataExportStatus.READY || !dataExport.fileName) {
+      throw new AppError('Export is not ready', 409);
+    }
+
+    if (dataExport.expiresAt && dataExport.expiresAt <= new Date()) {
+      throw new AppError('Export has expired', 410);
+    }
+
+    res.download(getExportPath(dataExport.fileName), 'chert-data-export.zip', (error) => {
+      if (error && !res.headersSent) {
+        next(error);
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteAccount = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { password } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const user = await User.findById(userId).select('+password');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    // Accounts provisioned through an identity provider have no password to confirm with
+    if (user.hasPassword !== false) {
+      if (!password || !(await bcrypt.compare(password, user.password))) {
+        throw new AppError('Password is incorrect', 401);
+      }
+    }
+
+    if (user.deletionScheduledFor) {
+      throw new AppError('Account deletion is already scheduled', 409);
+    }
+
+    const { deletionScheduledFor, revokedSessionIds } = await scheduleAccountDeletion(userId, req.user?.sessionId);
+
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    if (io) {
+      disconnectSessionSockets(io, revokedSessionIds);
+    }
+
+    logger.info(`User ${userId} scheduled account deletion for ${deletionScheduledFor.toISOString()}`);
+
+    res.json({
+      success: true,
+      message: 'Account scheduled for deletion',
+      data: {
+        deletionScheduledFor,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const cancelDeletion = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const cancelled = await cancelAccountDeletion(userId);
+    if (!cancelled) {
+      throw new AppError('No account deletion is scheduled', 409);
+    }
+
+    res.json({
+      success: true,
+      message: 'Account deletion cancelled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,33 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { processPendingExports, removeExports } from './dataExport.service';
+import { processScheduledDeletions } from './accountDeletion.service';
+import logger from '../../utils/logger';
+
+const JOB_INTERVAL_MS = 60 * 1000;
+
+// Periodically build queued data exports, clean up expired archives and erase
+// accounts whose deletion grace period has ended
+export const startAccountJobs = (io: SocketIOServer): NodeJS.Timeout => {
+  let running = false;
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+
+    try {
+      await processPendingExports();
+      await removeExports();
+      await processScheduledDeletions(io);
+    } catch (error) {
+      logger.error('Account jobs failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, JOB_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,37 @@
+import { IUser } from './user.model';
+import { AppError } from '../../utils/errors';
+import { AccountStatus } from '../../types';
+
+// Whether a user may log in and use the API. Suspensions with an end date lapse on their own.
+export const isAccountActive = (user: Pick<IUser, 'accountStatus' | 'suspendedUntil'>): boolean => {
+  if (user.accountStatus === AccountStatus.BANNED || user.accountStatus === AccountStatus.DELETED) {
+    return false;
+  }
+
+  if (user.accountStatus === AccountStatus.SUSPENDED) {
+    return !!user.suspendedUntil && user.suspendedUntil <= new Date();
+  }
+
+  return true;
+};
+
+export const assertAccountActive = (user: Pick<IUser, 'accountStatus' | 'suspendedUntil'>): void => {
+  if (isAccountActive(user)) {
+    return;
+  }
+
+  if (user.accountStatus === AccountStatus.DELETED) {
+    throw new AppError('This account has been deleted', 403);
+  }
+
+  if (user.accountStatus === AccountStatus.BANNED) {
+    throw new AppError('This account has been banned', 403);
+  }
+
+  throw new AppError(
+    user.suspendedUntil
+      ? `This account is suspended until ${user.suspendedUntil.toISOString()}`
+      : 'This account has been suspended',
+    403
+  );
+};
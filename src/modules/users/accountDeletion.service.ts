@@ -0,0 +1,182 @@
+import bcrypt from 'bcryptjs';
+import { Server as SocketIOServer } from 'socket.io';
+import User from './user.model';
+import Block from './block.model';
+import Contact from './contact.model';
+import Chat from '../chats/chat.model';
+import ChatInvite from '../chats/invite.model';
+import JoinRequest from '../chats/joinRequest.model';
+import ChatMember from '../chats/chatMember.model';
+import { releaseGroupRoles } from '../chats/permissions.policy';
+import Message from '../messages/message.model';
+import MessageView from '../messages/messageView.model';
+import Session from '../auth/session.model';
+import ApiKey from '../auth/apiKey.model';
+import AuthToken from '../auth/token.model';
+import PhoneOtp from '../auth/phoneOtp.model';
+import OidcState from '../auth/oidcState.model';
+import { revokeUserSessions } from '../auth/session.service';
+import { purgeUserFiles } from '../messages/upload.service';
+import { removeExports } from './dataExport.service';
+import { disconnectUserSockets } from '../../sockets/socket.handler';
+import { generateRandomToken } from '../../utils/tokens';
+import { removeAvatarFiles } from '../../utils/avatar';
+import { AccountStatus, PresenceState, PrivacyAudience, UserRole } from '../../types';
+import logger from '../../utils/logger';
+
+const DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14', 10);
+
+// Start the grace period. The account keeps working until then so the request can be
+// cancelled, but every other session is signed out.
+export const scheduleAccountDeletion = async (
+  userId: string,
+  currentSessionId?: string
+): Promise<{ deletionScheduledFor: Date; revokedSessionIds: string[] }> => {
+  const deletionScheduledFor = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+
+  await User.findByIdAndUpdate(userId, {
+    $set: { deletionRequestedAt: new Date(), deletionScheduledFor },
+  });
+
+  const revokedSessionIds = await revokeUserSessions(userId, 'account_deletion_requested', currentSessionId);
+  return { deletionScheduledFor, revokedSessionIds };
+};
+
+export const cancelAccountDeletion = async (userId: string): Promise<boolean> => {
+  const result = await User.updateOne(
+    { _id: userId, deletionScheduledFor: { $exists: true } },
+    { $unset: { deletionRequestedAt: 1, deletionScheduledFor: 1 } }
+  );
+  return result.modifiedCount > 0;
+};
+
+// Helper function to take a user out of every chat, handing group admin rights to
+// the next member and removing chats nobody is left in
+const leaveAllChats = async (userId: string): Promise<void> => {
+  const chats = await Chat.find({ participants: userId });
+
+  for (const chat of chats) {
+    chat.participants = chat.participants.filter((participant) => participant.toString() !== userId);
+
+    if (chat.participants.length === 0) {
+      await Message.deleteMany({ chatId: chat._id });
+      await MessageView.deleteMany({ chatId: chat._id });
+      await Chat.findByIdAndDelete(chat._id);
+      await ChatInvite.deleteMany({ chatId: chat._id });
+      await JoinRequest.deleteMany({ chatId: chat._id });
+      await ChatMember.deleteMany({ chatId: chat._id });
+      await removeAvatarFiles(chat.avatar);
+      continue;
+    }
+
+    releaseGroupRoles(chat, userId);
+    await chat.save();
+  }
+};
+
+// Erase an account. Messages stay in their chats so conversations remain readable,
+// but they now belong to an anonymous placeholder and lose their attachments.
+export const deleteAccount = async (userId: string, io?: SocketIOServer): Promise<void> => {
+  const user = await User.findById(userId);
+  if (!user || user.accountStatus === AccountStatus.DELETED) {
+    return;
+  }
+
+  await revokeUserSessions(userId, 'account_deleted');
+  if (io) {
+    disconnectUserSockets(io, userId);
+  }
+
+  await leaveAllChats(userId);
+
+  // Files have to be collected while messages and the avatar still point at them
+  await purgeUserFiles(userId);
+  await Message.updateMany({ senderId: userId }, { $unset: { fileUrl: 1, fileName: 1, fileSize: 1 } });
+  await Message.updateMany({ 'reactions.userId': userId }, { $pull: { reactions: { userId } } });
+  await Message.updateMany({ readBy: userId }, { $pull: { readBy: userId } });
+
+  await Promise.all([
+    Session.deleteMany({ userId }),
+    ApiKey.deleteMany({ userId }),
+    AuthToken.deleteMany({ userId }),
+    PhoneOtp.deleteMany({ userId }),
+    OidcState.deleteMany({ userId }),
+    Contact.deleteMany({ $or: [{ ownerId: userId }, { contactUserId: userId }] }),
+    Block.deleteMany({ $or: [{ blockerId: userId }, { blockedId: userId }] }),
+    JoinRequest.deleteMany({ userId }),
+    ChatMember.deleteMany({ userId }),
+    MessageView.deleteMany({ userId }),
+    removeExports(userId),
+  ]);
+
+  // Keep the document as a placeholder so message senders still resolve
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: {
+        username: `del_${userId}`,
+        email: `${userId}@deleted.invalid`,
+        emailVerified: false,
+        password: await bcrypt.hash(generateRandomToken(), 12),
+        hasPassword: false,
+        identities: [],
+        phoneVerified: false,
+        twoFactorEnabled: false,
+        role: UserRole.USER,
+        accountStatus: AccountStatus.DELETED,
+        privacy: {
+          lastSeen: PrivacyAudience.NOBODY,
+          onlineStatus: PrivacyAudience.NOBODY,
+          avatar: PrivacyAudience.NOBODY,
+          phoneNumber: PrivacyAudience.NOBODY,
+          groupAdd: PrivacyAudience.NOBODY,
+        },
+        status: '',
+        isOnline: false,
+        presence: PresenceState.OFFLINE,
+        presenceMode: PresenceState.ONLINE,
+        deletedAt: new Date(),
+      },
+      $unset: {
+        emailVerifiedAt: 1,
+        avatar: 1,
+        displayName: 1,
+        searchTerms: 1,
+        statusEmoji: 1,
+        statusExpiresAt: 1,
+        phoneNumber: 1,
+        phoneHash: 1,
+        phoneVerifiedAt: 1,
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorRecoveryCodes: 1,
+        twoFactorLastUsedStep: 1,
+        suspendedUntil: 1,
+        moderationReason: 1,
+        deletionRequestedAt: 1,
+        deletionScheduledFor: 1,
+        lastSeen: 1,
+      },
+    }
+  );
+
+  logger.info(`Account ${userId} deleted`);
+};
+
+// Delete every account whose grace period has ended
+export const processScheduledDeletions = async (io?: SocketIOServer): Promise<void> => {
+  const users = await User.find({
+    deletionScheduledFor: { $lte: new Date() },
+    accountStatus: { $ne: AccountStatus.DELETED },
+  })
+    .select('_id')
+    .limit(20);
+
+  for (const user of users) {
+    try {
+      await deleteAccount(user._id.toString(), io);
+    } catch (error) {
+      logger.error(`Failed to delete account ${user._id}:`, error);
+    }
+  }
+};
@@ -0,0 +1,31 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IBlock extends Document {
+  blockerId: mongoose.Types.ObjectId;
+  blockedId: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const blockSchema = new Schema<IBlock>(
+  {
+    blockerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    blockedId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+blockSchema.index({ blockerId: 1, blockedId: 1 }, { unique: true });
+
+export default mongoose.model<IBlock>('Block', blockSchema);
@@ -0,0 +1,53 @@
+import Block from './block.model';
+import { AppError } from '../../utils/errors';
+
+// Whether either user has blocked the other
+export const isBlockedBetween = async (userId: string, otherUserId: string): Promise<boolean> => {
+  const block = await Block.exists({
+    $or: [
+      { blockerId: userId, blockedId: otherUserId },
+      { blockerId: otherUserId, blockedId: userId },
+    ],
+  });
+  return !!block;
+};
+
+// Users hidden from this user: everyone they blocked and everyone who blocked them
+export const getBlockedRelationIds = async (userId: string): Promise<string[]> => {
+  const blocks = await Block.find({
+    $or: [{ blockerId: userId }, { blockedId: userId }],
+  }).select('blockerId blockedId');
+
+  return blocks.map((block) =>
+    block.blockerId.toString() === userId ? block.blockedId.toString() : block.blockerId.toString()
+  );
+};
+
+export const assertNotBlocked = async (userId: string, otherUserId: string): Promise<void> => {
+  if (await isBlockedBetween(userId, otherUserId)) {
+    throw new AppError('You cannot interact with this user', 403);
+  }
+};
+
+// One-to-one chats go quiet in both directions once either side blocks the other.
+// Group chats are unaffected.
+export const canMessageChat = async (
+  chat: { isGroup: boolean; participants: { toString(): string }[] },
+  userId: string
+): Promise<boolean> => {
+  if (chat.isGroup) {
+    return true;
+  }
+
+  const otherUserId = chat.participants.map((p) => p.toString()).find((id) => id !== userId);
+  return !otherUserId || !(await isBlockedBetween(userId, otherUserId));
+};
+
+export const assertCanMessageChat = async (
+  chat: { isGroup: boolean; participants: { toString(): string }[] },
+  userId: string
+): Promise<void> => {
+  if (!(await canMessageChat(chat, userId))) {
+    throw new AppError('You cannot interact with this user', 403);
+  }
+};
@@ -0,0 +1,62 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum ContactSource {
+  SYNC = 'sync', // Uploaded from the device address book
+  MANUAL = 'manual', // Added in the app
+}
+
+// An entry in a user's contact list. Address-book entries are stored only as a
+// phone number hash and match whichever user verifies that number; manual
+// entries point at a user directly.
+export interface IContact extends Document {
+  ownerId: mongoose.Types.ObjectId;
+  phoneHash?: string;
+  contactUserId?: mongoose.Types.ObjectId;
+  name?: string;
+  source: ContactSource;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const contactSchema = new Schema<IContact>(
+  {
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    phoneHash: {
+      type: String,
+    },
+    contactUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Contact name cannot exceed 100 characters'],
+    },
+    source: {
+      type: String,
+      enum: Object.values(ContactSource),
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+contactSchema.index(
+  { ownerId: 1, phoneHash: 1 },
+  { unique: true, partialFilterExpression: { phoneHash: { $type: 'string' } } }
+);
+contactSchema.index(
+  { ownerId: 1, contactUserId: 1 },
+  { unique: true, partialFilterExpression: { contactUserId: { $type: 'objectId' } } }
+);
+contactSchema.index({ phoneHash: 1 });
+contactSchema.index({ contactUserId: 1 });
+
+export default mongoose.model<IContact>('Contact', contactSchema);
@@ -0,0 +1,121 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import * as contactsService from './contacts.service';
+import { ContactMatch } from './contacts.service';
+import { loadPrivacyViewer, redactUser, PrivacyViewer } from './privacy.policy';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+
+// Helper function to shape a matched contact, hiding what the contact keeps private
+const formatContact = (match: ContactMatch, viewer: PrivacyViewer) => ({
+  name: match.name,
+  phoneHash: match.phoneHash,
+  user: redactUser(
+    {
+      id: match.user._id,
+      username: match.user.username,
+      phoneNumber: match.user.phoneNumber,
+      avatar: match.user.avatar,
+      status: match.user.status,
+      isOnline: match.user.isOnline,
+      lastSeen: match.user.lastSeen,
+      privacy: match.user.privacy,
+    },
+    viewer
+  ),
+});
+
+// Helper function to format matches with a single privacy lookup
+const formatContacts = async (userId: string, matches: ContactMatch[]) => {
+  const viewer = await loadPrivacyViewer(userId, matches.map((match) => match.user._id.toString()));
+  return matches.map((match) => formatContact(match, viewer));
+};
+
+export const syncContacts = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { contacts, replace } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const { matches, invalid } = await contactsService.syncContacts(userId, contacts, !!replace);
+
+    res.json({
+      success: true,
+      message: 'Contacts synced successfully',
+      data: {
+        matches: await formatContacts(userId, matches),
+        invalid,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getContacts = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const matches = await contactsService.listContacts(userId);
+
+    res.json({
+      success: true,
+      data: {
+        contacts: await formatContacts(userId, matches),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const addContact = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { userId: contactUserId, phoneNumber, name } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const match = await contactsService.addContact(userId, { userId: contactUserId, phoneNumber }, name);
+    const [contact] = match ? await formatContacts(userId, [match]) : [null];
+
+    res.status(201).json({
+      success: true,
+      message: match ? 'Contact added successfully' : 'Contact saved. They are not on Chert yet.',
+      data: { contact },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const removeContact = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { userId: contactUserId } = req.params;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    if (!mongoose.isValidObjectId(contactUserId) || !(await contactsService.removeContact(userId, contactUserId))) {
+      throw new AppError('Contact not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Contact removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
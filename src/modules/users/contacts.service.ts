@@ -0,0 +1,254 @@
+import mongoose from 'mongoose';
+import Contact, { ContactSource } from './contact.model';
+import User, { IUser } from './user.model';
+import { canViewField, loadPrivacyViewer } from './privacy.policy';
+import { getCounterStore } from '../../utils/counterStore';
+import { hashToken } from '../../utils/tokens';
+import { AccountLockedError, AppError } from '../../utils/errors';
+
+const MAX_CONTACTS_PER_USER = parseInt(process.env.MAX_CONTACTS_PER_USER || '5000', 10);
+const MAX_CONTACT_SYNCS_PER_HOUR = parseInt(process.env.MAX_CONTACT_SYNCS_PER_HOUR || '20', 10);
+
+export interface ContactEntry {
+  phoneNumber?: string;
+  phoneHash?: string;
+  name?: string;
+}
+
+export interface ContactMatch {
+  contactId: string;
+  name?: string;
+  phoneHash?: string;
+  user: IUser;
+}
+
+// Phone numbers are stored as bare digits, so strip spaces, dashes and brackets
+export const normalizePhoneNumber = (value: string): string | null => {
+  const digits = value.replace(/\D/g, '');
+  return /^[0-9]{10,11}$/.test(digits) ? digits : null;
+};
+
+// Clients that do not want to upload raw numbers send this hash instead:
+// lowercase hex SHA-256 of the normalized number
+export const hashPhoneNumber = (phoneNumber: string): string => hashToken(phoneNumber);
+
+// Helper function to find users by the hash of their verified phone number
+const findUsersByPhoneHash = async (hashes: string[]): Promise<Map<string, IUser>> => {
+  if (hashes.length === 0) {
+    return new Map();
+  }
+
+  const users = await User.find({ phoneHash: { $in: hashes }, phoneVerified: true }).select('+phoneHash');
+  return new Map(users.map((user) => [user.phoneHash!, user]));
+};
+
+// Helper function to resolve contact entries to the users they currently point at
+const resolveContacts = async (
+  contacts: { _id: mongoose.Types.ObjectId; name?: string; phoneHash?: string; contactUserId?: mongoose.Types.ObjectId }[]
+): Promise<ContactMatch[]> => {
+  const usersByHash = await findUsersByPhoneHash(
+    contacts.map((contact) => contact.phoneHash).filter((hash): hash is string => !!hash)
+  );
+  const directIds = contacts.map((contact) => contact.contactUserId).filter(Boolean);
+  const directUsers = directIds.length > 0 ? await User.find({ _id: { $in: directIds } }) : [];
+  const usersById = new Map(directUsers.map((user) => [user._id.toString(), user]));
+
+  const matches: ContactMatch[] = [];
+  const seen = new Set<string>();
+  for (const contact of contacts) {
+    const user = contact.contactUserId
+      ? usersById.get(contact.contactUserId.toString())
+      : contact.phoneHash
+        ? usersByHash.get(contact.phoneHash)
+        : undefined;
+
+    if (user && !seen.has(user._id.toString())) {
+      seen.add(user._id.toString());
+      matches.push({ contactId: contact._id.toString(), name: contact.name, phoneHash: contact.phoneHash, user });
+    }
+  }
+  return matches;
+};
+
+// Cap how often a user can sync, so uploads cannot be used to probe which numbers belong to
+// Chert users
+const assertCanSync = async (ownerId: string): Promise<void> => {
+  const store = getCounterStore();
+  const key = `contacts:sync:${ownerId}`;
+
+  const syncsThisHour = await store.increment(key, 60 * 60);
+  if (syncsThisHour > MAX_CONTACT_SYNCS_PER_HOUR) {
+    throw new AccountLockedError(await store.ttl(key), 'Too many contact syncs. Please try again later.');
+  }
+};
+
+// Store a batch of address-book entries and return the ones that belong to Chert users.
+// With `replace`, previously synced entries are dropped first (send it with the first batch).
+export const syncContacts = async (
+  ownerId: string,
+  entries: ContactEntry[],
+  replace: boolean
+): Promise<{ matches: ContactMatch[]; invalid: number }> => {
+  await assertCanSync(ownerId);
+
+  const byHash = new Map<string, string | undefined>();
+  let invalid = 0;
+
+  for (const entry of entries) {
+    const normalized = entry.phoneNumber ? normalizePhoneNumber(entry.phoneNumber) : null;
+    const phoneHash = normalized ? hashPhoneNumber(normalized) : entry.phoneHash?.toLowerCase();
+
+    if (!phoneHash) {
+      invalid++;
+      continue;
+    }
+    byHash.set(phoneHash, entry.name || byHash.get(phoneHash));
+  }
+
+  if (replace) {
+    await Contact.deleteMany({ ownerId, source: ContactSource.SYNC });
+  }
+
+  const existing = await Contact.countDocuments({ ownerId });
+  if (existing + byHash.size > MAX_CONTACTS_PER_USER) {
+    throw new AppError(`You can have at most ${MAX_CONTACTS_PER_USER} contacts`, 400);
+  }
+
+  if (byHash.size > 0) {
+    const owner = new mongoose.Types.ObjectId(ownerId);
+    await Contact.bulkWrite(
+      [...byHash].map(([phoneHash, name]) => ({
+        updateOne: {
+          filter: { ownerId: owner, phoneHash },
+          update: name
+            ? { $set: { name }, $setOnInsert: { source: ContactSource.SYNC } }
+            : { $setOnInsert: { source: ContactSource.SYNC } },
+          upsert: true,
+        },
+      }))
+    );
+  }
+
+  const contacts = await Contact.find({ ownerId, phoneHash: { $in: [...byHash.keys()] } });
+  const matches = await resolveContacts(contacts);
+
+  // A match reveals who owns the number, so leave out users who hide their number from the caller
+  // and users on either side of a block
+  const viewer = await loadPrivacyViewer(ownerId, matches.map((match) => match.user._id.toString()));
+  const visible = matches.filter((match) => {
+    const matchId = match.user._id.toString();
+    return matchId !== ownerId && !viewer.blocked.has(matchId) && canViewField(match.user, 'phoneNumber', viewer);
+  });
+
+  return { matches: visible, invalid };
+};
+
+// Add a single contact by user ID or phone number
+export const addContact = async (
+  ownerId: string,
+  target: { userId?: string; phoneNumber?: string },
+  name?: string
+): Promise<ContactMatch | null> => {
+  let filter: Record<string, unknown>;
+
+  if (target.userId) {
+    if (target.userId === ownerId) {
+      throw new AppError('You cannot add yourself as a contact', 400);
+    }
+    if (!mongoose.isValidObjectId(target.userId) || !(await User.exists({ _id: target.userId }))) {
+      throw new AppError('User not found', 404);
+    }
+    filter = { ownerId, contactUserId: target.userId };
+  } else {
+    const normalized = normalizePhoneNumber(target.phoneNumber || '');
+    if (!normalized) {
+      throw new AppError('Invalid phone number format (must be 10-11 digits)', 400);
+    }
+    filter = { ownerId, phoneHash: hashPhoneNumber(normalized) };
+  }
+
+  if (!(await Contact.exists(filter))) {
+    const existing = await Contact.countDocuments({ ownerId });
+    if (existing >= MAX_CONTACTS_PER_USER) {
+      throw new AppError(`You can have at most ${MAX_CONTACTS_PER_USER} contacts`, 400);
+    }
+  }
+
+  const contact = await Contact.findOneAndUpdate(
+    filter,
+    name
+      ? { $set: { name }, $setOnInsert: { source: ContactSource.MANUAL } }
+      : { $setOnInsert: { source: ContactSource.MANUAL } },
+    { upsert: true, new: true }
+  );
+
+  const [match] = await resolveContacts([contact]);
+  return match || null;
+};
+
+// Every contact of a user that belongs to a Chert account
+export const listContacts = async (ownerId: string): Promise<ContactMatch[]> => {
+  const contacts = await Contact.find({ ownerId }).sort({ name: 1, createdAt: 1 });
+  const matches = await resolveContacts(contacts);
+  return matches.filter((match) => match.user._id.toString() !== ownerId);
+};
+
+// Remove a user from the contact list, however they were added
+export const removeContact = async (ownerId: string, userId: string): Promise<boolean> => {
+  const user = await User.findById(userId).select('+phoneHash phoneVerified');
+  if (!user) {
+    return false;
+  }
+
+  const conditions: Record<string, unknown>[] = [{ contactUserId: user._id }];
+  if (user.phoneVerified && user.phoneHash) {
+    conditions.push({ phoneHash: user.phoneHash });
+  }
+
+  const result = await Contact.deleteMany({ ownerId, $or: conditions });
+  return result.deletedCount > 0;
+};
+
+// Of the given users, the ones who have the viewer in their contacts
+export const findContactOwners = async (viewerId: string, ownerIds: string[]): Promise<Set<string>> => {
+  if (ownerIds.length === 0) {
+    return new Set();
+  }
+
+  const viewer = await User.findById(viewerId).select('+phoneHash phoneVerified');
+  const conditions: Record<string, unknown>[] = [{ contactUserId: viewerId }];
+  if (viewer?.phoneVerified && viewer.phoneHash) {
+    conditions.push({ phoneHash: viewer.phoneHash });
+  }
+
+  const contacts = await Contact.find({ ownerId: { $in: ownerIds }, $or: conditions }).select('ownerId');
+  return new Set(contacts.map((contact) => contact.ownerId.toString()));
+};
+
+// Of the given users, the ones the owner has in their contacts
+export const findContactsAmong = async (ownerId: string, userIds: string[]): Promise<Set<string>> => {
+  if (userIds.length === 0) {
+    return new Set();
+  }
+
+  const users = await User.find({
+    _id: { $in: userIds },
+    phoneVerified: true,
+    phoneHash: { $exists: true },
+  }).select('+phoneHash');
+  const userIdsByHash = new Map(users.map((user) => [user.phoneHash!, user._id.toString()]));
+
+  const contacts = await Contact.find({
+    ownerId,
+    $or: [{ contactUserId: { $in: userIds } }, { phoneHash: { $in: [...userIdsByHash.keys()] } }],
+  }).select('contactUserId phoneHash');
+
+  const found = new Set<string>();
+  for (const contact of contacts) {
+    const userId = contact.contactUserId?.toString() || userIdsByHash.get(contact.phoneHash || '');
+    if (userId) {
+      found.add(userId);
+    }
+  }
+  return found;
+};
@@ -0,0 +1,63 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  READY = 'ready',
+  FAILED = 'failed',
+}
+
+export interface IDataExport extends Document {
+  userId: mongoose.Types.ObjectId;
+  status: DataExportStatus;
+  fileName?: string;
+  fileSize?: number;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const dataExportSchema = new Schema<IDataExport>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(DataExportStatus),
+      default: DataExportStatus.PENDING,
+      index: true,
+    },
+    // Archive name inside EXPORT_DIR
+    fileName: {
+      type: String,
+    },
+    fileSize: {
+      type: Number,
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    // The archive is deleted once this passes
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export default mongoose.model<IDataExport>('DataExport', dataExportSchema);
@@ -0,0 +1,230 @@
+import fs from 'fs';
+import path from 'path';
+import archiver from 'archiver';
+import DataExport, { DataExportStatus, IDataExport } from './dataExport.model';
+import User, { IUser } from './user.model';
+import Block from './block.model';
+import Contact from './contact.model';
+import Chat from '../chats/chat.model';
+import Message from '../messages/message.model';
+import Session from '../auth/session.model';
+import ApiKey from '../auth/apiKey.model';
+import { findUserFiles, getUploadPath } from '../messages/upload.service';
+import { getPrivacySettings } from './privacy.policy';
+import { AppError } from '../../utils/errors';
+import logger from '../../utils/logger';
+
+const EXPORT_DIR = process.env.EXPORT_DIR || './exports';
+const EXPORT_EXPIRES_HOURS = parseInt(process.env.EXPORT_EXPIRES_HOURS || '48', 10);
+const EXPORT_COOLDOWN_HOURS = 24;
+
+type PopulatedUsername = Pick<IUser, '_id' | 'username'>;
+
+export const getExportPath = (fileName: string): string => path.resolve(EXPORT_DIR, fileName);
+
+// Queue an export, unless one is already running or was produced recently
+export const requestDataExport = async (userId: string): Promise<IDataExport> => {
+  const inProgress = await DataExport.findOne({
+    userId,
+    status: { $in: [DataExportStatus.PENDING, DataExportStatus.PROCESSING] },
+  });
+  if (inProgress) {
+    throw new AppError('An export is already being prepared', 409);
+  }
+
+  const recent = await DataExport.findOne({
+    userId,
+    status: DataExportStatus.READY,
+    createdAt: { $gt: new Date(Date.now() - EXPORT_COOLDOWN_HOURS * 60 * 60 * 1000) },
+  });
+  if (recent) {
+    throw new AppError(`You can request one export every ${EXPORT_COOLDOWN_HOURS} hours`, 429);
+  }
+
+  return DataExport.create({ userId });
+};
+
+// Helper function to gather everything stored about a user as JSON documents
+const collectUserData = async (userId: string) => {
+  const [user, sessions, apiKeys, contacts, blocks, chats] = await Promise.all([
+    User.findById(userId),
+    Session.find({ userId }).sort({ createdAt: -1 }),
+    ApiKey.find({ userId }).sort({ createdAt: -1 }),
+    Contact.find({ ownerId: userId }),
+    Block.find({ blockerId: userId }).populate<{ blockedId: PopulatedUsername | null }>('blockedId', 'username'),
+    Chat.find({ participants: userId }).populate<{ owner: PopulatedUsername | null }>('owner', 'username'),
+  ]);
+
+  // Channel subscribers belong to the channel, not to this user's data
+  const populatedChats = await Chat.populate<{ participants: PopulatedUsername[] }>(
+    chats.filter((chat) => !chat.isChannel),
+    { path: 'participants', select: 'username' }
+  );
+  const participantsByChat = new Map(populatedChats.map((chat) => [chat._id.toString(), chat.participants]));
+
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  const profile = {
+    id: user._id,
+    username: user.username,
+    email: user.email,
+    emailVerified: user.emailVerified !== false,
+    phoneNumber: user.phoneNumber,
+    phoneVerified: user.phoneVerified,
+    avatar: user.avatar,
+    status: user.status,
+    role: user.role,
+    privacy: getPrivacySettings(user),
+    twoFactorEnabled: user.twoFactorEnabled,
+    identities: user.identities.map((identity) => ({
+      provider: identity.provider,
+      email: identity.email,
+      linkedAt: identity.linkedAt,
+    })),
+    lastSeen: user.lastSeen,
+    createdAt: user.createdAt,
+    sessions: sessions.map((session) => ({
+      deviceName: session.deviceName,
+      ipAddress: session.ipAddress,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      revokedAt: session.revokedAt,
+    })),
+    apiKeys: apiKeys.map((apiKey) => ({
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      createdAt: apiKey.createdAt,
+      revokedAt: apiKey.revokedAt,
+    })),
+    contacts: contacts.map((contact) => ({
+      name: contact.name,
+      phoneHash: contact.phoneHash,
+      userId: contact.contactUserId,
+      source: contact.source,
+    })),
+    blockedUsers: blocks.map((block) => ({
+      userId: block.blockedId?._id,
+      username: block.blockedId?.username,
+      blockedAt: block.createdAt,
+    })),
+  };
+
+  const chatList = chats.map((chat) => ({
+    id: chat._id,
+    isGroup: chat.isGroup,
+    isChannel: chat.isChannel,
+    name: chat.name,
+    description: chat.description,
+    participants: participantsByChat.get(chat._id.toString())?.map((participant) => ({
+      id: participant._id,
+      username: participant.username,
+    })),
+    owner: chat.owner?.username,
+    createdAt: chat.createdAt,
+  }));
+
+  const messages = await Message.find({ senderId: userId })
+    .sort({ createdAt: 1 })
+    .select('chatId type content fileUrl fileName fileSize replyTo createdAt updatedAt')
+    .lean();
+
+  return { profile, chats: chatList, messages };
+};
+
+// Helper function to write the export archive: JSON documents plus the user's uploaded files
+const writeArchive = async (userId: string, filePath: string): Promise<void> => {
+  const { profile, chats, messages } = await collectUserData(userId);
+  const files = await findUserFiles(userId);
+
+  const output = fs.createWriteStream(filePath);
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('close', resolve);
+    output.on('error', reject);
+    archive.on('error', reject);
+  });
+
+  archive.pipe(output);
+  archive.append(JSON.stringify(profile, null, 2), { name: 'profile.json' });
+  archive.append(JSON.stringify(chats, null, 2), { name: 'chats.json' });
+  archive.append(JSON.stringify(messages, null, 2), { name: 'messages.json' });
+
+  for (const file of files) {
+    const uploadPath = getUploadPath(file.filename);
+    if (fs.existsSync(uploadPath)) {
+      archive.file(uploadPath, { name: `files/${file.filename}` });
+    }
+  }
+
+  await archive.finalize();
+  await finished;
+};
+
+// Build one queued export. The status update claims it, so it runs only once.
+export const processDataExport = async (exportId: string): Promise<void> => {
+  const dataExport = await DataExport.findOneAndUpdate(
+    { _id: exportId, status: DataExportStatus.PENDING },
+    { $set: { status: DataExportStatus.PROCESSING, startedAt: new Date() } },
+    { new: true }
+  );
+  if (!dataExport) {
+    return;
+  }
+
+  const fileName = `chert-export-${dataExport.userId}-${dataExport._id}.zip`;
+  const filePath = getExportPath(fileName);
+
+  try {
+    await fs.promises.mkdir(EXPORT_DIR, { recursive: true });
+    await writeArchive(dataExport.userId.toString(), filePath);
+    const { size } = await fs.promises.stat(filePath);
+
+    dataExport.status = DataExportStatus.READY;
+    dataExport.fileName = fileName;
+    dataExport.fileSize = size;
+    dataExport.completedAt = new Date();
+    dataExport.expiresAt = new Date(Date.now() + EXPORT_EXPIRES_HOURS * 60 * 60 * 1000);
+    await dataExport.save();
+
+    logger.info(`Data export ${dataExport._id} ready for user ${dataExport.userId}`);
+  } catch (error) {
+    logger.error(`Data export ${dataExport._id} failed:`, error);
+    await fs.promises.rm(filePath, { force: true });
+
+    dataExport.status = DataExportStatus.FAILED;
+    dataExport.error = 'Export could not be generated';
+    dataExport.completedAt = new Date();
+    await dataExport.save();
+  }
+};
+
+export const processPendingExports = async (): Promise<void> => {
+  // Requeue exports that were interrupted by a restart
+  await DataExport.updateMany(
+    { status: DataExportStatus.PROCESSING, startedAt: { $lt: new Date(Date.now() - 60 * 60 * 1000) } },
+    { $set: { status: DataExportStatus.PENDING } }
+  );
+
+  const pending = await DataExport.find({ status: DataExportStatus.PENDING }).sort({ createdAt: 1 }).limit(5);
+  for (const dataExport of pending) {
+    await processDataExport(dataExport._id.toString());
+  }
+};
+
+// Delete archives past their expiry, and every export of the given user when set
+export const removeExports = async (userId?: string): Promise<void> => {
+  const filter = userId ? { userId } : { expiresAt: { $lte: new Date() } };
+  const exports = await DataExport.find(filter);
+
+  for (const dataExport of exports) {
+    if (dataExport.fileName) {
+      await fs.promises.rm(getExportPath(dataExport.fileName), { force: true });
+    }
+  }
+
+  await DataExport.deleteMany({ _id: { $in: exports.map((dataExport) => dataExport._id) } });
+};
@@ -0,0 +1,148 @@
+import { Response, NextFunction } from 'express';
+import mongoose, { UpdateQuery } from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import User, { IUser } from './user.model';
+import { loadPrivacyViewer } from './privacy.policy';
+import { formatPresence, refreshPresence, PRESENCE_FIELDS } from './presence.service';
+import { AuthRequest } from '../../types';
+import { AppError } from '../../utils/errors';
+
+const MAX_PRESENCE_IDS = 100;
+
+// Helper function to push a presence change to the user's chats, when sockets are running
+const announcePresence = async (req: AuthRequest, userId: string): Promise<void> => {
+  const io = req.app.get('io') as SocketIOServer | undefined;
+  if (io) {
+    await refreshPresence(io, userId, { announce: true });
+  }
+};
+
+// Helper function to load the current user's own presence, with nothing hidden
+const loadOwnPresence = async (userId: string) => {
+  const user = await User.findById(userId).select(PRESENCE_FIELDS);
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+  return { ...formatPresence(user), mode: user.presenceMode };
+};
+
+export const getPresence = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const ids = [
+      ...new Set(
+        (req.query.ids as string)
+          .split(',')
+          .map((id) => id.trim())
+          .filter((id) => mongoose.isValidObjectId(id))
+      ),
+    ];
+
+    if (ids.length > MAX_PRESENCE_IDS) {
+      throw new AppError(`At most ${MAX_PRESENCE_IDS} users can be queried at once`, 400);
+    }
+
+    const [users, viewer] = await Promise.all([
+      User.find({ _id: { $in: ids } }).select(PRESENCE_FIELDS),
+      loadPrivacyViewer(userId, ids),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        presence: users.map((user) => formatPresence(user, viewer)),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updatePresence = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { state } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    await User.findByIdAndUpdate(userId, { presenceMode: state });
+    await announcePresence(req, userId);
+
+    res.json({
+      success: true,
+      message: 'Presence updated successfully',
+      data: {
+        presence: await loadOwnPresence(userId),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updateStatus = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { text, emoji, expiresAt } = req.body;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const statusExpiresAt = expiresAt ? new Date(expiresAt) : undefined;
+    if (statusExpiresAt && statusExpiresAt <= new Date()) {
+      throw new AppError('Status expiry must be in the future', 400);
+    }
+
+    const $set: UpdateQuery<IUser>['$set'] = { status: text || '' };
+    const $unset: UpdateQuery<IUser>['$unset'] = {};
+    if (emoji) $set.statusEmoji = emoji;
+    else $unset.statusEmoji = 1;
+    if (statusExpiresAt) $set.statusExpiresAt = statusExpiresAt;
+    else $unset.statusExpiresAt = 1;
+    const update: UpdateQuery<IUser> = { $set, $unset };
+
+    await User.findByIdAndUpdate(userId, update, { runValidators: true });
+    await announcePresence(req, userId);
+
+    res.json({
+      success: true,
+      message: 'Status updated successfully',
+      data: {
+        presence: await loadOwnPresence(userId),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const clearStatus = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    await User.findByIdAndUpdate(userId, {
+      $set: { status: '' },
+      $unset: { statusEmoji: 1, statusExpiresAt: 1 },
+    });
+    await announcePresence(req, userId);
+
+    res.json({
+      success: true,
+      message: 'Status cleared successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
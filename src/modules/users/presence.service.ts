@@ -0,0 +1,218 @@
+import { Server as SocketIOServer } from 'socket.io';
+import User, { IUser } from './user.model';
+import Chat, { IChat } from '../chats/chat.model';
+import { canViewField, filterAudience, PrivacyViewer } from './privacy.policy';
+import { PresenceState } from '../../types';
+import logger from '../../utils/logger';
+
+export const PRESENCE_IDLE_MS = parseInt(process.env.PRESENCE_IDLE_MINUTES || '5', 10) * 60 * 1000;
+
+// States a user can pick for themselves
+export const PRESENCE_MODES = [
+  PresenceState.ONLINE,
+  PresenceState.AWAY,
+  PresenceState.BUSY,
+  PresenceState.INVISIBLE,
+] as const;
+
+export const PRESENCE_FIELDS = 'username presence presenceMode status statusEmoji statusExpiresAt lastSeen privacy';
+
+type PresenceSubject = Pick<IUser, '_id' | 'presence' | 'status' | 'statusEmoji' | 'statusExpiresAt' | 'lastSeen'> & {
+  privacy?: IUser['privacy'];
+};
+
+// The state others see, given what the user chose and whether they are connected and active
+export const resolvePresence = (mode: PresenceState | undefined, connected: boolean, idle: boolean): PresenceState => {
+  if (!connected || mode === PresenceState.INVISIBLE) {
+    return PresenceState.OFFLINE;
+  }
+  if ((!mode || mode === PresenceState.ONLINE) && idle) {
+    return PresenceState.AWAY;
+  }
+  return mode || PresenceState.ONLINE;
+};
+
+export const hasActiveStatus = (user: Pick<IUser, 'status' | 'statusEmoji' | 'statusExpiresAt'>): boolean =>
+  (!!user.status || !!user.statusEmoji) && (!user.statusExpiresAt || user.statusExpiresAt > new Date());
+
+// Presence as shown to a viewer; without a viewer nothing is hidden
+export const formatPresence = (user: PresenceSubject, viewer?: PrivacyViewer) => {
+  const active = hasActiveStatus(user);
+  const presence: Record<string, unknown> = {
+    userId: user._id,
+    state: user.presence || PresenceState.OFFLINE,
+    lastSeen: user.lastSeen,
+    status: active ? user.status : '',
+    statusEmoji: active ? user.statusEmoji : undefined,
+    statusExpiresAt: active ? user.statusExpiresAt : undefined,
+  };
+
+  if (viewer && !canViewField(user, 'onlineStatus', viewer)) delete presence.state;
+  if (viewer && !canViewField(user, 'lastSeen', viewer)) delete presence.lastSeen;
+
+  return presence;
+};
+
+// Persist a new visible state. Last seen is only recorded when a visible user goes
+// offline, so switching to invisible does not reveal when someone was last around.
+export const savePresence = async (userId: string, previous: PresenceState, current: PresenceState): Promise<void> => {
+  const update: Record<string, unknown> = {
+    presence: current,
+    isOnline: current !== PresenceState.OFFLINE,
+  };
+  if (previous !== PresenceState.OFFLINE && current === PresenceState.OFFLINE) {
+    update.lastSeen = new Date();
+  }
+
+  await User.updateOne({ _id: userId }, { $set: update });
+};
+
+// Clear custom statuses whose expiry has passed and return the affected users
+export const clearExpiredStatuses = async (): Promise<string[]> => {
+  const users = await User.find({ statusExpiresAt: { $lte: new Date() } })
+    .select('_id')
+    .limit(500);
+  if (users.length === 0) {
+    return [];
+  }
+
+  const userIds = users.map((user) => user._id);
+  await User.updateMany(
+    { _id: { $in: userIds }, statusExpiresAt: { $lte: new Date() } },
+    { $set: { status: '' }, $unset: { statusEmoji: 1, statusExpiresAt: 1 } }
+  );
+
+  return userIds.map((id) => id.toString());
+};
+
+// Sockets each user has open on this instance, when they were last active and who went idle
+const connections = new Map<string, Set<string>>();
+const lastActivity = new Map<string, number>();
+const idleUsers = new Set<string>();
+
+export const trackConnection = (userId: string, socketId: string): void => {
+  if (!connections.has(userId)) {
+    connections.set(userId, new Set());
+  }
+  connections.get(userId)!.add(socketId);
+};
+
+// Forget a closed socket. Returns true when it was the user's last one.
+export const untrackConnection = (userId: string, socketId: string): boolean => {
+  const sockets = connections.get(userId);
+  if (!sockets) {
+    return false;
+  }
+
+  sockets.delete(socketId);
+  if (sockets.size > 0) {
+    return false;
+  }
+
+  connections.delete(userId);
+  lastActivity.delete(userId);
+  idleUsers.delete(userId);
+  return true;
+};
+
+// Helper function to sort chat members by what they may see of this user's presence (their
+// privacy settings, or a block either way): the rooms of those who may not see the online
+// status at all, and the IDs of those who may see it but not the last seen time
+const getPresenceAudience = async (
+  userId: string,
+  chats: IChat[]
+): Promise<{ hiddenRooms: string[]; lastSeenHiddenIds: Set<string> }> => {
+  const memberIds = [
+    ...new Set(chats.flatMap((chat) => chat.participants.map((p) => p.toString()))),
+  ].filter((id) => id !== userId);
+
+  const [onlineAllowed, lastSeenAllowed] = await Promise.all([
+    filterAudience(userId, 'onlineStatus', memberIds),
+    filterAudience(userId, 'lastSeen', memberIds),
+  ]);
+  const canSeeOnline = new Set(onlineAllowed);
+  const canSeeLastSeen = new Set(lastSeenAllowed);
+
+  return {
+    hiddenRooms: memberIds.filter((id) => !canSeeOnline.has(id)).map((id) => `user:${id}`),
+    lastSeenHiddenIds: new Set(onlineAllowed.filter((id) => !canSeeLastSeen.has(id))),
+  };
+};
+
+// Recompute a user's visible presence from their chosen mode, connection and activity,
+// persist it and tell their chats. Invisible users appear offline, so going invisible
+// sends user_offline and nothing announces them while they stay that way.
+export const refreshPresence = async (
+  io: SocketIOServer,
+  userId: string,
+  options: { announce?: boolean } = {}
+): Promise<void> => {
+  const user = await User.findById(userId).select(PRESENCE_FIELDS);
+  if (!user) {
+    return;
+  }
+
+  const previous = user.presence || PresenceState.OFFLINE;
+  const current = resolvePresence(user.presenceMode, connections.has(userId), idleUsers.has(userId));
+  if (previous === current && !options.announce) {
+    return;
+  }
+
+  if (previous !== current) {
+    await savePresence(userId, previous, current);
+    user.presence = current;
+  }
+
+  // Channel subscribers are not told about each other
+  const chats = await Chat.find({ participants: userId, isChannel: { $ne: true } }).select('participants');
+  const { hiddenRooms, lastSeenHiddenIds } = await getPresenceAudience(userId, chats);
+  const presence = formatPresence(user);
+  const presenceWithoutLastSeen = { ...presence };
+  delete presenceWithoutLastSeen.lastSeen;
+
+  chats.forEach((chat) => {
+    const room = io.to(`chat:${chat._id}`).except(hiddenRooms);
+    if (previous === PresenceState.OFFLINE && current !== PresenceState.OFFLINE) {
+      room.emit('user_online', { userId, username: user.username, chatId: chat._id });
+    } else if (previous !== PresenceState.OFFLINE && current === PresenceState.OFFLINE) {
+      room.emit('user_offline', { userId, username: user.username, chatId: chat._id });
+    }
+
+    // Members who may not see the last seen time get the update without it
+    const lastSeenHiddenRooms = chat.participants
+      .map((participant) => participant.toString())
+      .filter((id) => lastSeenHiddenIds.has(id))
+      .map((id) => `user:${id}`);
+    room.except(lastSeenHiddenRooms).emit('user_presence', { ...presence, username: user.username, chatId: chat._id });
+    if (lastSeenHiddenRooms.length > 0) {
+      io.to(lastSeenHiddenRooms).emit('user_presence', {
+        ...presenceWithoutLastSeen,
+        username: user.username,
+        chatId: chat._id,
+      });
+    }
+  });
+};
+
+// Record activity, bringing an idle user back from away
+export const markActive = (io: SocketIOServer, userId: string): void => {
+  lastActivity.set(userId, Date.now());
+  if (idleUsers.delete(userId)) {
+    refreshPresence(io, userId).catch((error) => logger.error('Error updating presence:', error));
+  }
+};
+
+// Mark inactive users idle and drop custom statuses that have expired
+export const sweepPresence = async (io: SocketIOServer): Promise<void> => {
+  const now = Date.now();
+  for (const userId of connections.keys()) {
+    if (!idleUsers.has(userId) && now - (lastActivity.get(userId) || 0) >= PRESENCE_IDLE_MS) {
+      idleUsers.add(userId);
+      await refreshPresence(io, userId);
+    }
+  }
+
+  for (const userId of await clearExpiredStatuses()) {
+    await refreshPresence(io, userId, { announce: true });
+  }
+};
@@ -0,0 +1,135 @@
+import mongoose from 'mongoose';
+import User from './user.model';
+import Block from './block.model';
+import * as blockService from './block.service';
+import * as contactsService from './contacts.service';
+import { canViewField, filterAudience, PrivacyViewer, redactUser } from './privacy.policy';
+import { PrivacyAudience } from '../../types';
+
+const subjectId = new mongoose.Types.ObjectId();
+const viewerId = new mongoose.Types.ObjectId().toString();
+
+const subject = {
+  _id: subjectId,
+  username: 'alice',
+  avatar: '/uploads/alice.png',
+  isOnline: true,
+  presence: 'online',
+  lastSeen: new Date(),
+  phoneNumber: '+15550000001',
+  privacy: {
+    lastSeen: PrivacyAudience.EVERYONE,
+    onlineStatus: PrivacyAudience.CONTACTS,
+    avatar: PrivacyAudience.NOBODY,
+    phoneNumber: PrivacyAudience.CONTACTS,
+  },
+};
+
+const viewerOf = (options: { contact?: boolean; blocked?: boolean } = {}): PrivacyViewer => ({
+  viewerId,
+  contactOf: new Set(options.contact ? [subjectId.toString()] : []),
+  blocked: new Set(options.blocked ? [subjectId.toString()] : []),
+});
+
+describe('privacy redaction', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('hides contact-only and private fields from strangers', () => {
+    const redacted = redactUser(subject, viewerOf());
+
+    expect(redacted).toEqual({ _id: subjectId, username: 'alice', lastSeen: subject.lastSeen });
+  });
+
+  it('shows contact-only fields to contacts', () => {
+    const redacted = redactUser(subject, viewerOf({ contact: true }));
+
+    expect(redacted).toMatchObject({ isOnline: true, presence: 'online', phoneNumber: subject.phoneNumber });
+    expect(redacted).not.toHaveProperty('avatar');
+    expect(redacted).not.toHaveProperty('privacy');
+  });
+
+  it('never shares presence across a block, whatever the settings', () => {
+    const viewer = viewerOf({ contact: true, blocked: true });
+
+    expect(canViewField(subject, 'onlineStatus', viewer)).toBe(false);
+    expect(canViewField(subject, 'lastSeen', viewer)).toBe(false);
+    expect(redactUser(subject, viewer)).not.toHaveProperty('lastSeen');
+  });
+
+  it('shows users everything about themselves', () => {
+    const viewer = { ...viewerOf(), viewerId: subjectId.toString() };
+
+    expect(redactUser(subject, viewer)).toMatchObject({ avatar: subject.avatar, phoneNumber: subject.phoneNumber });
+  });
+
+  it('falls back to the defaults for users without settings', () => {
+    const withoutSettings = { ...subject, privacy: undefined };
+
+    expect(canViewField(withoutSettings, 'avatar', viewerOf())).toBe(true);
+    expect(canViewField(withoutSettings, 'phoneNumber', viewerOf())).toBe(false);
+  });
+});
+
+describe('presence broadcast audience', () => {
+  const contactId = new mongoose.Types.ObjectId().toString();
+  const strangerId = new mongoose.Types.ObjectId().toString();
+  const blockedId = new mongoose.Types.ObjectId().toString();
+
+  const mockSettings = (privacy: Record<string, PrivacyAudience>) =>
+    jest.spyOn(User, 'findById').mockReturnValue({ select: () => Promise.resolve({ privacy }) } as never);
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(contactsService, 'findContactsAmong').mockResolvedValue(new Set([contactId, blockedId]));
+    jest.spyOn(blockService, 'getBlockedRelationIds').mockResolvedValue([blockedId]);
+  });
+
+  it('limits contact-only presence to contacts who are not blocked', async () => {
+    mockSettings({ onlineStatus: PrivacyAudience.CONTACTS });
+
+    await expect(
+      filterAudience(subjectId.toString(), 'onlineStatus', [contactId, strangerId, blockedId, subjectId.toString()])
+    ).resolves.toEqual([contactId]);
+  });
+
+  it('sends public presence to everyone but blocked users', async () => {
+    mockSettings({ onlineStatus: PrivacyAudience.EVERYONE });
+
+    await expect(filterAudience(subjectId.toString(), 'onlineStatus', [contactId, strangerId, blockedId])).resolves.toEqual([
+      contactId,
+      strangerId,
+    ]);
+  });
+
+  it('sends hidden presence to nobody', async () => {
+    mockSettings({ onlineStatus: PrivacyAudience.NOBODY });
+
+    await expect(filterAudience(subjectId.toString(), 'onlineStatus', [contactId, strangerId])).resolves.toEqual([]);
+  });
+});
+
+describe('blocking', () => {
+  const chat = (isGroup: boolean) => ({ isGroup, participants: [subjectId, new mongoose.Types.ObjectId(viewerId)] });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('silences one-to-one chats in both directions', async () => {
+    jest.spyOn(Block, 'exists').mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+
+    await expect(blockService.canMessageChat(chat(false), viewerId)).resolves.toBe(false);
+    await expect(blockService.assertCanMessageChat(chat(false), subjectId.toString())).rejects.toMatchObject({
+      statusCode: 403,
+    });
+  });
+
+  it('leaves group chats alone', async () => {
+    const exists = jest.spyOn(Block, 'exists').mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+
+    await expect(blockService.canMessageChat(chat(true), viewerId)).resolves.toBe(true);
+    expect(exists).not.toHaveBeenCalled();
+  });
+});
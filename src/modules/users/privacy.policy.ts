@@ -0,0 +1,149 @@
+import User, { IUserPrivacy } from './user.model';
+import { getBlockedRelationIds } from './block.service';
+import { findContactOwners, findContactsAmong } from './contacts.service';
+import { AppError } from '../../utils/errors';
+import { PrivacyAudience } from '../../types';
+
+// Fields to populate wherever another user is shown. `privacy` is needed to
+// redact the rest and is stripped again by redactUser.
+export const PUBLIC_USER_FIELDS =
+  'username displayName avatar status statusEmoji presence isOnline lastSeen phoneNumber privacy';
+
+export const DEFAULT_PRIVACY: IUserPrivacy = {
+  lastSeen: PrivacyAudience.EVERYONE,
+  onlineStatus: PrivacyAudience.EVERYONE,
+  avatar: PrivacyAudience.EVERYONE,
+  phoneNumber: PrivacyAudience.CONTACTS,
+  groupAdd: PrivacyAudience.EVERYONE,
+};
+
+// What the viewer is allowed to see of a set of users
+export interface PrivacyViewer {
+  viewerId: string;
+  contactOf: Set<string>; // Users who count the viewer as a contact
+  blocked: Set<string>; // Users on either side of a block with the viewer
+}
+
+type PrivacySubject = {
+  _id?: { toString(): string };
+  id?: { toString(): string };
+  privacy?: Partial<IUserPrivacy>;
+};
+
+// Privacy settings are a subdocument when read from a loaded user
+type StoredPrivacy = Partial<IUserPrivacy> & { toObject?: () => Partial<IUserPrivacy> };
+
+export const getPrivacySettings = (user: { privacy?: StoredPrivacy }): IUserPrivacy => {
+  const settings = typeof user.privacy?.toObject === 'function' ? user.privacy.toObject() : user.privacy;
+  return { ...DEFAULT_PRIVACY, ...settings };
+};
+
+export const loadPrivacyViewer = async (viewerId: string, subjectIds: string[]): Promise<PrivacyViewer> => {
+  const uniqueIds = [...new Set(subjectIds.filter((id) => id !== viewerId))];
+  const [contactOf, blocked] = await Promise.all([
+    findContactOwners(viewerId, uniqueIds),
+    getBlockedRelationIds(viewerId),
+  ]);
+  return { viewerId, contactOf, blocked: new Set(blocked) };
+};
+
+const isAudienceMember = (audience: PrivacyAudience, subjectId: string, viewer: PrivacyViewer): boolean => {
+  if (audience === PrivacyAudience.EVERYONE) {
+    return true;
+  }
+  if (audience === PrivacyAudience.CONTACTS) {
+    return viewer.contactOf.has(subjectId);
+  }
+  return false;
+};
+
+export const canViewField = (
+  subject: PrivacySubject,
+  field: Exclude<keyof IUserPrivacy, 'groupAdd'>,
+  viewer: PrivacyViewer
+): boolean => {
+  const subjectId = (subject._id ?? subject.id)?.toString() || '';
+  if (subjectId === viewer.viewerId) {
+    return true;
+  }
+
+  // Presence is never shared across a block
+  if ((field === 'onlineStatus' || field === 'lastSeen') && viewer.blocked.has(subjectId)) {
+    return false;
+  }
+
+  return isAudienceMember(getPrivacySettings(subject)[field], subjectId, viewer);
+};
+
+// Of the given users, the ones allowed to see one of the subject's profile fields.
+// Used for broadcasts, where there is one subject and many viewers.
+export const filterAudience = async (
+  subjectId: string,
+  field: Exclude<keyof IUserPrivacy, 'groupAdd'>,
+  candidateIds: string[]
+): Promise<string[]> => {
+  const candidates = [...new Set(candidateIds)].filter((id) => id !== subjectId);
+  const subject = await User.findById(subjectId).select('privacy');
+  const audience = subject ? getPrivacySettings(subject)[field] : DEFAULT_PRIVACY[field];
+
+  if (audience === PrivacyAudience.NOBODY || candidates.length === 0) {
+    return [];
+  }
+
+  let allowed = candidates;
+  if (audience === PrivacyAudience.CONTACTS) {
+    const contacts = await findContactsAmong(subjectId, candidates);
+    allowed = candidates.filter((id) => contacts.has(id));
+  }
+
+  if (field === 'onlineStatus' || field === 'lastSeen') {
+    const blocked = new Set(await getBlockedRelationIds(subjectId));
+    allowed = allowed.filter((id) => !blocked.has(id));
+  }
+
+  return allowed;
+};
+
+// Copy of a serialized user with the fields the viewer may not see removed
+export const redactUser = <T extends PrivacySubject>(user: T, viewer: PrivacyViewer): Omit<T, 'privacy'> => {
+  const serializable = user as { toObject?: () => Record<string, unknown> };
+  const plain: Record<string, unknown> =
+    typeof serializable.toObject === 'function' ? serializable.toObject() : { ...user };
+
+  if (!canViewField(user, 'onlineStatus', viewer)) {
+    delete plain.isOnline;
+    delete plain.presence;
+  }
+  if (!canViewField(user, 'lastSeen', viewer)) delete plain.lastSeen;
+  if (!canViewField(user, 'avatar', viewer)) delete plain.avatar;
+  if (!canViewField(user, 'phoneNumber', viewer)) delete plain.phoneNumber;
+  delete plain.privacy;
+
+  return plain as Omit<T, 'privacy'>;
+};
+
+// Refuse to put users into a group unless their "who can add me to groups" setting allows the adder
+export const assertCanAddToGroup = async (adderId: string, userIds: string[]): Promise<void> => {
+  const targetIds = [...new Set(userIds.map((id) => id.toString()))].filter((id) => id !== adderId);
+  if (targetIds.length === 0) {
+    return;
+  }
+
+  const [users, viewer] = await Promise.all([
+    User.find({ _id: { $in: targetIds } }).select('username privacy'),
+    loadPrivacyViewer(adderId, targetIds),
+  ]);
+
+  const refused = users.filter(
+    (user) =>
+      viewer.blocked.has(user._id.toString()) ||
+      !isAudienceMember(getPrivacySettings(user).groupAdd, user._id.toString(), viewer)
+  );
+
+  if (refused.length > 0) {
+    throw new AppError(
+      `These users do not allow you to add them to groups: ${refused.map((user) => user.username).join(', ')}`,
+      403
+    );
+  }
+};
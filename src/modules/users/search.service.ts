@@ -0,0 +1,157 @@
+import User, { IUser } from './user.model';
+import Contact from './contact.model';
+import Chat from '../chats/chat.model';
+import { getBlockedRelationIds } from './block.service';
+import { normalizePhoneNumber } from './contacts.service';
+import { PUBLIC_USER_FIELDS } from './privacy.policy';
+import { isRestrictedForUnverified, verifiedEmailFilter, UnverifiedRestriction } from './verification.policy';
+import { AppError } from '../../utils/errors';
+import { escapeRegex } from '../../utils/regex';
+import { AccountStatus } from '../../types';
+import logger from '../../utils/logger';
+
+const RECENT_CHAT_PARTNERS = 100;
+const EMAIL_PATTERN = /^\S+@\S+\.\S+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+
+// Results are ranked in tiers (contacts, then recent 1:1 chat partners, then everyone
+// else) and sorted by username within a tier. The cursor is the last tier and username returned.
+interface SearchCursor {
+  tier: number;
+  username: string;
+}
+
+export interface UserSearchResult {
+  users: IUser[];
+  nextCursor: string | null;
+}
+
+const encodeCursor = (cursor: SearchCursor): string =>
+  Buffer.from(JSON.stringify({ t: cursor.tier, u: cursor.username })).toString('base64url');
+
+const decodeCursor = (value: string): SearchCursor => {
+  try {
+    const { t, u } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (Number.isInteger(t) && t >= 0 && typeof u === 'string') {
+      return { tier: t, username: u };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new AppError('Invalid cursor', 400);
+};
+
+// Helper function to turn the query into a match. Emails and phone numbers only match
+// exactly (and phone numbers only once verified); anything else is a prefix of a username
+// or display name word.
+const buildMatch = (q: string): Record<string, unknown> => {
+  const query = q.trim();
+
+  if (EMAIL_PATTERN.test(query)) {
+    return { email: query.toLowerCase() };
+  }
+
+  if (PHONE_PATTERN.test(query)) {
+    const phoneNumber = normalizePhoneNumber(query);
+    if (phoneNumber) {
+      return { phoneNumber, phoneVerified: true };
+    }
+  }
+
+  return { searchTerms: { $regex: `^${escapeRegex(query.toLowerCase())}` } };
+};
+
+// Helper function to match accounts that can currently be used; lapsed suspensions count
+const activeAccountFilter = () => ({
+  $or: [
+    { accountStatus: { $exists: false } },
+    { accountStatus: AccountStatus.ACTIVE },
+    { accountStatus: AccountStatus.SUSPENDED, suspendedUntil: { $lte: new Date() } },
+  ],
+});
+
+// Helper function to get the viewer's contacts and recent 1:1 chat partners
+const getRankedUserIds = async (viewerId: string): Promise<[string[], string[]]> => {
+  const [contacts, chats] = await Promise.all([
+    Contact.find({ ownerId: viewerId, contactUserId: { $exists: true } }).select('contactUserId'),
+    Chat.find({ participants: viewerId, isGroup: false })
+      .sort({ updatedAt: -1 })
+      .limit(RECENT_CHAT_PARTNERS)
+      .select('participants'),
+  ]);
+
+  const contactIds = [...new Set(contacts.map((contact) => contact.contactUserId!.toString()))];
+  const contactSet = new Set(contactIds);
+  const partnerIds = [
+    ...new Set(
+      chats.flatMap((chat) => chat.participants.map((participant) => participant.toString()))
+    ),
+  ].filter((id) => id !== viewerId && !contactSet.has(id));
+
+  return [contactIds, partnerIds];
+};
+
+export const searchUsers = async (
+  viewerId: string,
+  q: string,
+  options: { cursor?: string; limit: number }
+): Promise<UserSearchResult> => {
+  const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+  const [blockedIds, [contactIds, partnerIds]] = await Promise.all([
+    getBlockedRelationIds(viewerId),
+    getRankedUserIds(viewerId),
+  ]);
+
+  const baseFilters: Record<string, unknown>[] = [
+    buildMatch(q),
+    { _id: { $nin: [viewerId, ...blockedIds] } },
+    activeAccountFilter(),
+    // Unverified accounts can be hidden from search to cut down on spam
+    ...(isRestrictedForUnverified(UnverifiedRestriction.SEARCHABLE) ? [verifiedEmailFilter] : []),
+  ];
+
+  const tiers: (Record<string, unknown> | null)[] = [
+    contactIds.length > 0 ? { _id: { $in: contactIds } } : null,
+    partnerIds.length > 0 ? { _id: { $in: partnerIds } } : null,
+    { _id: { $nin: [...contactIds, ...partnerIds] } },
+  ];
+
+  // Fetch one extra result to know whether there is another page
+  const results: { user: IUser; tier: number }[] = [];
+  for (let tier = cursor?.tier ?? 0; tier < tiers.length && results.length <= options.limit; tier++) {
+    const tierFilter = tiers[tier];
+    if (!tierFilter) {
+      continue;
+    }
+
+    const filters = [...baseFilters, tierFilter];
+    if (cursor && tier === cursor.tier) {
+      filters.push({ username: { $gt: cursor.username } });
+    }
+
+    const users = await User.find({ $and: filters })
+      .select(PUBLIC_USER_FIELDS)
+      .sort({ username: 1 })
+      .limit(options.limit + 1 - results.length);
+    results.push(...users.map((user) => ({ user, tier })));
+  }
+
+  const page = results.slice(0, options.limit);
+  const last = page[page.length - 1];
+
+  return {
+    users: page.map((result) => result.user),
+    nextCursor: results.length > options.limit ? encodeCursor({ tier: last.tier, username: last.user.username }) : null,
+  };
+};
+
+// Fill in search terms for accounts created before search terms existed
+export const backfillSearchTerms = async (): Promise<void> => {
+  const result = await User.updateMany({ searchTerms: { $exists: false }, accountStatus: { $ne: AccountStatus.DELETED } }, [
+    { $set: { searchTerms: [{ $toLower: '$username' }] } },
+  ]);
+
+  if (result.modifiedCount > 0) {
+    logger.info(`Added search terms to ${result.modifiedCount} user(s)`);
+  }
+};
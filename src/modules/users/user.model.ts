@@ -1,12 +1,55 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { UserRole, AccountStatus, PrivacyAudience, PresenceState, Avatar } from '../../types';
+import { avatarSchema } from '../../utils/avatar';
+
+export interface IUserIdentity {
+  provider: string;
+  subject: string;
+  email?: string;
+  linkedAt: Date;
+}
+
+export interface IUserPrivacy {
+  lastSeen: PrivacyAudience;
+  onlineStatus: PrivacyAudience;
+  avatar: PrivacyAudience;
+  phoneNumber: PrivacyAudience;
+  groupAdd: PrivacyAudience;
+}
 
 export interface IUser extends Document {
   username: string;
+  displayName?: string;
+  searchTerms?: string[]; // Lowercase username and display name words, for prefix search
   email: string;
+  emailVerified?: boolean; // Unset for accounts created before verification existed (treated as verified)
+  emailVerifiedAt?: Date;
   phoneNumber?: string;
+  phoneVerified: boolean;
+  phoneVerifiedAt?: Date;
+  phoneHash?: string;
   password: string;
-  avatar?: string;
+  hasPassword?: boolean; // false for accounts provisioned through an identity provider
+  identities: IUserIdentity[];
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
+  role: UserRole;
+  accountStatus: AccountStatus;
+  suspendedUntil?: Date;
+  moderationReason?: string;
+  privacy: IUserPrivacy;
+  deletionRequestedAt?: Date;
+  deletionScheduledFor?: Date;
+  deletedAt?: Date;
+  avatar?: Avatar;
   status?: string;
+  statusEmoji?: string;
+  statusExpiresAt?: Date; // Custom status is cleared at this time
+  presence: PresenceState; // What others see; never INVISIBLE
+  presenceMode: PresenceState; // What the user chose; ONLINE turns to AWAY when idle
   lastSeen?: Date;
   isOnline: boolean;
   createdAt: Date;
@@ -23,6 +66,15 @@ const userSchema = new Schema<IUser>(
       minlength: [3, 'Username must be at least 3 characters'],
       maxlength: [30, 'Username cannot exceed 30 characters'],
     },
+    displayName: {
+      type: String,
+      trim: true,
+      maxlength: [50, 'Display name cannot exceed 50 characters'],
+    },
+    searchTerms: {
+      type: [String],
+      select: false,
+    },
     email: {
       type: String,
       required: [true, 'Email is required'],
@@ -31,6 +83,12 @@ const userSchema = new Schema<IUser>(
       trim: true,
       match: [/^\S+@\S+\.\S+$/, 'Please provide a valid email'],
     },
+    emailVerified: {
+      type: Boolean,
+    },
+    emailVerifiedAt: {
+      type: Date,
+    },
     phoneNumber: {
       type: String,
       unique: true,
@@ -46,21 +104,157 @@ const userSchema = new Schema<IUser>(
         message: 'Invalid phone number (10-11 digits)',
       },
     },
+    // Only verified numbers can be used to find a user or to log in
+    phoneVerified: {
+      type: Boolean,
+      default: false,
+    },
+    phoneVerifiedAt: {
+      type: Date,
+    },
+    // SHA-256 of the verified number, matched against uploaded address books
+    phoneHash: {
+      type: String,
+      select: false,
+      index: true,
+    },
     password: {
       type: String,
       required: [true, 'Password is required'],
       minlength: [6, 'Password must be at least 6 characters'],
       select: false,
     },
-    avatar: {
+    hasPassword: {
+      type: Boolean,
+    },
+    // Linked OpenID Connect accounts
+    identities: [
+      {
+        _id: false,
+        provider: {
+          type: String,
+          required: true,
+        },
+        subject: {
+          type: String,
+          required: true,
+        },
+        email: {
+          type: String,
+        },
+        linkedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
       type: String,
-      default: '',
+      select: false,
+    },
+    // Secret generated during enrollment, promoted once the first code is confirmed
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+    },
+    // SHA-256 hashes of unused recovery codes
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+      default: undefined,
+    },
+    // Last accepted TOTP time step, so a code cannot be replayed
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false,
+    },
+    role: {
+      type: String,
+      enum: Object.values(UserRole),
+      default: UserRole.USER,
+    },
+    accountStatus: {
+      type: String,
+      enum: Object.values(AccountStatus),
+      default: AccountStatus.ACTIVE,
+    },
+    // End of a temporary suspension; unset for indefinite suspensions
+    suspendedUntil: {
+      type: Date,
+    },
+    moderationReason: {
+      type: String,
+      maxlength: [500, 'Reason cannot exceed 500 characters'],
+    },
+    // Set while a deletion request is in its grace period
+    deletionRequestedAt: {
+      type: Date,
+    },
+    deletionScheduledFor: {
+      type: Date,
+      index: { sparse: true },
+    },
+    deletedAt: {
+      type: Date,
+    },
+    // Who can see profile details and add this user to groups
+    privacy: {
+      lastSeen: {
+        type: String,
+        enum: Object.values(PrivacyAudience),
+        default: PrivacyAudience.EVERYONE,
+      },
+      onlineStatus: {
+        type: String,
+        enum: Object.values(PrivacyAudience),
+        default: PrivacyAudience.EVERYONE,
+      },
+      avatar: {
+        type: String,
+        enum: Object.values(PrivacyAudience),
+        default: PrivacyAudience.EVERYONE,
+      },
+      phoneNumber: {
+        type: String,
+        enum: Object.values(PrivacyAudience),
+        default: PrivacyAudience.CONTACTS,
+      },
+      groupAdd: {
+        type: String,
+        enum: Object.values(PrivacyAudience),
+        default: PrivacyAudience.EVERYONE,
+      },
+    },
+    avatar: {
+      type: avatarSchema,
     },
     status: {
       type: String,
       default: '',
       maxlength: [100, 'Status cannot exceed 100 characters'],
     },
+    statusEmoji: {
+      type: String,
+      maxlength: [32, 'Status emoji cannot exceed 32 characters'],
+    },
+    statusExpiresAt: {
+      type: Date,
+      index: { sparse: true },
+    },
+    presence: {
+      type: String,
+      enum: [PresenceState.ONLINE, PresenceState.AWAY, PresenceState.BUSY, PresenceState.OFFLINE],
+      default: PresenceState.OFFLINE,
+    },
+    presenceMode: {
+      type: String,
+      enum: [PresenceState.ONLINE, PresenceState.AWAY, PresenceState.BUSY, PresenceState.INVISIBLE],
+      default: PresenceState.ONLINE,
+    },
     lastSeen: {
       type: Date,
       default: Date.now,
@@ -75,8 +269,27 @@ const userSchema = new Schema<IUser>(
   }
 );
 
+// Terms a user can be found by with a prefix search: the whole username and display
+// name, plus each word of the display name
+export const buildSearchTerms = (username: string, displayName?: string): string[] => {
+  const name = (displayName || '').trim().replace(/\s+/g, ' ');
+  const terms = [username, name, ...name.split(' ')].map((term) => term.toLowerCase()).filter(Boolean);
+  return [...new Set(terms)];
+};
+
+userSchema.pre('save', function (next) {
+  if (this.isModified('username') || this.isModified('displayName')) {
+    this.searchTerms = buildSearchTerms(this.username, this.displayName);
+  }
+  next();
+});
+
 // Indexes are automatically created by unique: true on email and username fields
-// No need for explicit index() calls
+userSchema.index({ searchTerms: 1, username: 1 });
+userSchema.index(
+  { 'identities.provider': 1, 'identities.subject': 1 },
+  { unique: true, partialFilterExpression: { 'identities.subject': { $exists: true } } }
+);
 
 export default mongoose.model<IUser>('User', userSchema);
 
@@ -1,7 +1,15 @@
 import { Response, NextFunction } from 'express';
-import User from './user.model';
+import mongoose from 'mongoose';
+import { Server as SocketIOServer } from 'socket.io';
+import User, { IUser, buildSearchTerms } from './user.model';
+import Block from './block.model';
+import { getPrivacySettings, loadPrivacyViewer, redactUser } from './privacy.policy';
+import * as searchService from './search.service';
 import { AuthRequest } from '../../types';
 import { AppError } from '../../utils/errors';
+import { processAvatar, removeAvatarFiles } from '../../utils/avatar';
+
+const MAX_SEARCH_RESULTS = 50;
 
 export const getProfile = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -18,13 +26,23 @@ export const getProfile = async (req: AuthRequest, res: Response, next: NextFunc
         user: {
           id: user._id,
           username: user.username,
+          displayName: user.displayName,
           email: user.email,
+          emailVerified: user.emailVerified !== false,
           phoneNumber: user.phoneNumber,
+          phoneVerified: user.phoneVerified,
           avatar: user.avatar,
           status: user.status,
+          statusEmoji: user.statusEmoji,
+          statusExpiresAt: user.statusExpiresAt,
+          presence: user.presence,
+          presenceMode: user.presenceMode,
+          role: user.role,
           isOnline: user.isOnline,
           lastSeen: user.lastSeen,
           createdAt: user.createdAt,
+          privacy: getPrivacySettings(user),
+          deletionScheduledFor: user.deletionScheduledFor,
         },
       },
     });
@@ -36,12 +54,12 @@ export const getProfile = async (req: AuthRequest, res: Response, next: NextFunc
 export const updateProfile = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const userId = req.user?.id;
-    const { username, phoneNumber, status, avatar } = req.body;
+    const { username, displayName, phoneNumber, status } = req.body;
 
     const updateData: any = {};
     if (username) updateData.username = username;
+    if (displayName !== undefined) updateData.displayName = displayName;
     if (status !== undefined) updateData.status = status;
-    if (avatar !== undefined) updateData.avatar = avatar;
 
     // Check if username is already taken
     if (username) {
@@ -73,6 +91,13 @@ export const updateProfile = async (req: AuthRequest, res: Response, next: NextF
         // Allow clearing phone number
         updateData.phoneNumber = null;
       }
+
+      // A new number has to be verified again before others can find you by it
+      const currentUser = await User.findById(userId).select('phoneNumber');
+      if (currentUser?.phoneNumber !== updateData.phoneNumber) {
+        updateData.phoneVerified = false;
+        updateData.$unset = { phoneHash: 1 };
+      }
     }
 
     const user = await User.findByIdAndUpdate(userId, updateData, {
@@ -84,6 +109,11 @@ export const updateProfile = async (req: AuthRequest, res: Response, next: NextF
       throw new AppError('User not found', 404);
     }
 
+    // Keep the user findable under the new name
+    if (username || displayName !== undefined) {
+      await User.updateOne({ _id: user._id }, { searchTerms: buildSearchTerms(user.username, user.displayName) });
+    }
+
     res.json({
       success: true,
       message: 'Profile updated successfully',
@@ -91,8 +121,11 @@ export const updateProfile = async (req: AuthRequest, res: Response, next: NextF
         user: {
           id: user._id,
           username: user.username,
+          displayName: user.displayName,
           email: user.email,
+          emailVerified: user.emailVerified !== false,
           phoneNumber: user.phoneNumber,
+          phoneVerified: user.phoneVerified,
           avatar: user.avatar,
           status: user.status,
           isOnline: user.isOnline,
@@ -115,18 +148,27 @@ export const getUserById = async (req: AuthRequest, res: Response, next: NextFun
       throw new AppError('User not found', 404);
     }
 
+    const viewer = await loadPrivacyViewer(req.user!.id, [id]);
+
     res.json({
       success: true,
       data: {
-        user: {
-          id: user._id,
-          username: user.username,
-          phoneNumber: user.phoneNumber,
-          avatar: user.avatar,
-          status: user.status,
-          isOnline: user.isOnline,
-          lastSeen: user.lastSeen,
-        },
+        user: redactUser(
+          {
+            id: user._id,
+            username: user.username,
+            displayName: user.displayName,
+            phoneNumber: user.phoneNumber,
+            avatar: user.avatar,
+            status: user.status,
+            statusEmoji: user.statusEmoji,
+            presence: user.presence,
+            isOnline: user.isOnline,
+            lastSeen: user.lastSeen,
+            privacy: user.privacy,
+          },
+          viewer
+        ),
       },
     });
   } catch (error) {
@@ -136,44 +178,270 @@ export const getUserById = async (req: AuthRequest, res: Response, next: NextFun
 
 export const searchUsers = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { q } = req.query;
+    const { q, cursor } = req.query;
     const currentUserId = req.user?.id;
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), MAX_SEARCH_RESULTS);
 
-    if (!q || typeof q !== 'string') {
-      throw new AppError('Search query is required', 400);
+    if (!currentUserId) {
+      throw new AppError('User not authenticated', 401);
     }
 
-    const users = await User.find({
-      $and: [
-        { _id: { $ne: currentUserId } },
-        {
-          $or: [
-            { username: { $regex: q, $options: 'i' } },
-            { email: { $regex: q, $options: 'i' } },
-            { phoneNumber: { $regex: q, $options: 'i' } },
-          ],
+    const { users, nextCursor } = await searchService.searchUsers(currentUserId, q as string, {
+      cursor: cursor as string | undefined,
+      limit,
+    });
+
+    const viewer = await loadPrivacyViewer(currentUserId, users.map((user) => user._id.toString()));
+
+    res.json({
+      success: true,
+      data: {
+        users: users.map((user) =>
+          redactUser(
+            {
+              id: user._id,
+              username: user.username,
+              displayName: user.displayName,
+              phoneNumber: user.phoneNumber,
+              avatar: user.avatar,
+              status: user.status,
+              statusEmoji: user.statusEmoji,
+              presence: user.presence,
+              isOnline: user.isOnline,
+              lastSeen: user.lastSeen,
+              privacy: user.privacy,
+            },
+            viewer
+          )
+        ),
+        pagination: {
+          limit,
+          nextCursor,
         },
-      ],
-    })
-      .select('-password')
-      .limit(20);
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const blockUser = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    if (id === userId) {
+      throw new AppError('You cannot block yourself', 400);
+    }
+
+    if (!mongoose.isValidObjectId(id) || !(await User.exists({ _id: id }))) {
+      throw new AppError('User not found', 404);
+    }
+
+    await Block.updateOne(
+      { blockerId: userId, blockedId: id },
+      { $setOnInsert: { blockerId: userId, blockedId: id } },
+      { upsert: true }
+    );
+
+    // Stop showing the blocker as online to the blocked user right away
+    const io = req.app.get('io') as SocketIOServer | undefined;
+    if (io) {
+      io.to(`user:${id}`).emit('user_offline', { userId });
+    }
 
     res.json({
       success: true,
-      data: 
-       users.map((user) => ({
-          id: user._id,
-          username: user.username,
-          phoneNumber: user.phoneNumber,
-          avatar: user.avatar,
-          status: user.status,
-          isOnline: user.isOnline,
-          lastSeen: user.lastSeen,
-        })),
-  
+      message: 'User blocked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const unblockUser = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    if (!mongoose.isValidObjectId(id)) {
+      throw new AppError('User is not blocked', 404);
+    }
+
+    const result = await Block.deleteOne({ blockerId: userId, blockedId: id });
+    if (result.deletedCount === 0) {
+      throw new AppError('User is not blocked', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'User unblocked successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getBlockedUsers = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const blocks = await Block.find({ blockerId: userId })
+      .populate<{ blockedId: Pick<IUser, '_id' | 'username' | 'avatar' | 'privacy'> | null }>(
+        'blockedId',
+        'username avatar privacy'
+      )
+      .sort({ createdAt: -1 });
+    const blockedUsers = blocks.flatMap((block) => (block.blockedId ? [{ block, blocked: block.blockedId }] : []));
+
+    const viewer = await loadPrivacyViewer(
+      userId,
+      blockedUsers.map(({ blocked }) => blocked._id.toString())
+    );
+
+    res.json({
+      success: true,
+      data: {
+        users: blockedUsers.map(({ block, blocked }) =>
+          redactUser(
+            {
+              id: blocked._id,
+              username: blocked.username,
+              avatar: blocked.avatar,
+              blockedAt: block.createdAt,
+              privacy: blocked.privacy,
+            },
+            viewer
+          )
+        ),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getPrivacy = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const user = await User.findById(req.user?.id).select('privacy');
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        privacy: getPrivacySettings(user),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const updatePrivacy = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const updateData: any = {};
+    for (const [field, audience] of Object.entries(req.body)) {
+      updateData[`privacy.${field}`] = audience;
+    }
+
+    const user = await User.findByIdAndUpdate(req.user?.id, { $set: updateData }, {
+      new: true,
+      runValidators: true,
+    }).select('privacy');
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    res.json({
+      success: true,
+      message: 'Privacy settings updated successfully',
+      data: {
+        privacy: getPrivacySettings(user),
+      },
     });
   } catch (error) {
     next(error);
   }
 };
 
+export const updateAvatar = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    if (!req.file) {
+      throw new AppError('No image uploaded', 400);
+    }
+
+    const avatar = await processAvatar(req.file.buffer);
+
+    // Swap atomically and remove only the files of the avatar actually replaced, so
+    // concurrent uploads do not delete each other's images
+    const previous = await User.findByIdAndUpdate(userId, { $set: { avatar } })
+      .select('avatar')
+      .catch(async (error) => {
+        await removeAvatarFiles(avatar);
+        throw error;
+      });
+
+    if (!previous) {
+      await removeAvatarFiles(avatar);
+      throw new AppError('User not found', 404);
+    }
+
+    await removeAvatarFiles(previous.avatar);
+
+    res.json({
+      success: true,
+      message: 'Avatar updated successfully',
+      data: {
+        avatar,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const deleteAvatar = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      throw new AppError('User not authenticated', 401);
+    }
+
+    const user = await User.findByIdAndUpdate(userId, { $unset: { avatar: 1 } }).select('avatar');
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    await removeAvatarFiles(user.avatar);
+
+    res.json({
+      success: true,
+      message: 'Avatar removed successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
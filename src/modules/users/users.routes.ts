@@ -1,15 +1,40 @@
 import { Router } from 'express';
 import * as usersController from './users.controller';
+import * as contactsController from './contacts.controller';
+import * as accountController from './account.controller';
+import * as presenceController from './presence.controller';
 import { validate } from '../../middlewares/validation.middleware';
-import { authMiddleware } from '../../middlewares/auth.middleware';
+import { authMiddleware, requireScope, requireUserLogin } from '../../middlewares/auth.middleware';
+import { uploadAvatar } from '../../utils/upload';
+import { ApiScope } from '../../types';
 import * as usersValidation from './users.validation';
 
 const router = Router();
 
-router.get('/me', authMiddleware, usersController.getProfile);
-router.put('/me', authMiddleware, validate(usersValidation.updateProfileSchema), usersController.updateProfile);
-router.get('/search', authMiddleware, validate(usersValidation.searchUsersSchema), usersController.searchUsers);
-router.get('/:id', authMiddleware, usersController.getUserById);
+router.get('/me', authMiddleware, requireScope(ApiScope.USERS_READ), usersController.getProfile);
+router.put('/me', authMiddleware, requireScope(ApiScope.USERS_WRITE), validate(usersValidation.updateProfileSchema), usersController.updateProfile);
+router.delete('/me', authMiddleware, requireUserLogin, validate(usersValidation.deleteAccountSchema), accountController.deleteAccount);
+router.post('/me/deletion/cancel', authMiddleware, requireUserLogin, accountController.cancelDeletion);
+router.post('/me/export', authMiddleware, requireUserLogin, accountController.requestExport);
+router.get('/me/export', authMiddleware, requireUserLogin, accountController.getExports);
+router.get('/me/export/:id/download', authMiddleware, requireUserLogin, accountController.downloadExport);
+router.post('/me/avatar', authMiddleware, requireScope(ApiScope.USERS_WRITE), uploadAvatar, usersController.updateAvatar);
+router.delete('/me/avatar', authMiddleware, requireScope(ApiScope.USERS_WRITE), usersController.deleteAvatar);
+router.get('/presence', authMiddleware, requireScope(ApiScope.USERS_READ), validate(usersValidation.presenceQuerySchema), presenceController.getPresence);
+router.put('/me/presence', authMiddleware, requireScope(ApiScope.USERS_WRITE), validate(usersValidation.updatePresenceSchema), presenceController.updatePresence);
+router.put('/me/status', authMiddleware, requireScope(ApiScope.USERS_WRITE), validate(usersValidation.updateStatusSchema), presenceController.updateStatus);
+router.delete('/me/status', authMiddleware, requireScope(ApiScope.USERS_WRITE), presenceController.clearStatus);
+router.get('/search', authMiddleware, requireScope(ApiScope.USERS_READ), validate(usersValidation.searchUsersSchema), usersController.searchUsers);
+router.get('/me/privacy', authMiddleware, requireScope(ApiScope.USERS_READ), usersController.getPrivacy);
+router.put('/me/privacy', authMiddleware, requireScope(ApiScope.USERS_WRITE), validate(usersValidation.updatePrivacySchema), usersController.updatePrivacy);
+router.get('/contacts', authMiddleware, requireScope(ApiScope.USERS_READ), contactsController.getContacts);
+router.post('/contacts', authMiddleware, requireScope(ApiScope.USERS_WRITE), validate(usersValidation.addContactSchema), contactsController.addContact);
+router.post('/contacts/sync', authMiddleware, requireScope(ApiScope.USERS_WRITE), validate(usersValidation.syncContactsSchema), contactsController.syncContacts);
+router.delete('/contacts/:userId', authMiddleware, requireScope(ApiScope.USERS_WRITE), contactsController.removeContact);
+router.get('/me/blocked', authMiddleware, requireScope(ApiScope.USERS_READ), usersController.getBlockedUsers);
+router.post('/:id/block', authMiddleware, requireScope(ApiScope.USERS_WRITE), usersController.blockUser);
+router.delete('/:id/block', authMiddleware, requireScope(ApiScope.USERS_WRITE), usersController.unblockUser);
+router.get('/:id', authMiddleware, requireScope(ApiScope.USERS_READ), usersController.getUserById);
 
 export default router;
 
@@ -1,17 +1,97 @@
 import { z } from 'zod';
+import { PresenceState, PrivacyAudience } from '../../types';
 
 export const updateProfileSchema = z.object({
   body: z.object({
     username: z.string().min(3).max(30).optional(),
+    displayName: z.string().max(50).optional(),
     phoneNumber: z.string().regex(/^[0-9]{10,11}$/, 'Invalid phone number (10-11 digits)').optional().or(z.literal('')),
     status: z.string().max(100).optional(),
-    avatar: z.string().url().optional().or(z.literal('')),
   }),
 });
 
 export const searchUsersSchema = z.object({
   query: z.object({
-    q: z.string().min(1, 'Search query is required'),
+    q: z.string().trim().min(1, 'Search query is required').max(100),
+    cursor: z.string().max(200).optional(),
+    limit: z.string().regex(/^\d+$/, 'Limit must be a number').optional(),
   }),
 });
 
+
+export const updatePrivacySchema = z.object({
+  body: z
+    .object({
+      lastSeen: z.nativeEnum(PrivacyAudience).optional(),
+      onlineStatus: z.nativeEnum(PrivacyAudience).optional(),
+      avatar: z.nativeEnum(PrivacyAudience).optional(),
+      phoneNumber: z.nativeEnum(PrivacyAudience).optional(),
+      groupAdd: z.nativeEnum(PrivacyAudience).optional(),
+    })
+    .strict()
+    .refine((data) => Object.keys(data).length > 0, {
+      message: 'At least one privacy setting is required',
+    }),
+});
+
+export const syncContactsSchema = z.object({
+  body: z.object({
+    contacts: z
+      .array(
+        z
+          .object({
+            phoneNumber: z.string().max(32).optional(),
+            phoneHash: z.string().regex(/^[a-fA-F0-9]{64}$/, 'phoneHash must be a hex SHA-256 digest').optional(),
+            name: z.string().max(100).optional(),
+          })
+          .refine((data) => !!data.phoneNumber !== !!data.phoneHash, {
+            message: 'Each contact needs either phoneNumber or phoneHash',
+          })
+      )
+      .min(1, 'At least one contact is required')
+      .max(1000, 'At most 1000 contacts per batch'),
+    replace: z.boolean().optional(),
+  }),
+});
+
+export const addContactSchema = z.object({
+  body: z
+    .object({
+      userId: z.string().optional(),
+      phoneNumber: z.string().max(32).optional(),
+      name: z.string().max(100).optional(),
+    })
+    .refine((data) => !!data.userId !== !!data.phoneNumber, {
+      message: 'Either userId or phoneNumber is required',
+    }),
+});
+
+export const deleteAccountSchema = z.object({
+  body: z.object({
+    password: z.string().min(1).optional(),
+  }),
+});
+
+export const presenceQuerySchema = z.object({
+  query: z.object({
+    ids: z.string().min(1, 'User IDs are required'),
+  }),
+});
+
+export const updatePresenceSchema = z.object({
+  body: z.object({
+    state: z.enum([PresenceState.ONLINE, PresenceState.AWAY, PresenceState.BUSY, PresenceState.INVISIBLE]),
+  }),
+});
+
+export const updateStatusSchema = z.object({
+  body: z
+    .object({
+      text: z.string().max(100).optional(),
+      emoji: z.string().max(32).optional(),
+      expiresAt: z.string().datetime({ offset: true }).optional(),
+    })
+    .refine((data) => !!data.text || !!data.emoji, {
+      message: 'Status needs text or an emoji',
+    }),
+});
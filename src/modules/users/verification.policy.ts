@@ -0,0 +1,41 @@
+import User from './user.model';
+import { AppError } from '../../utils/errors';
+
+// Actions that can be withheld from accounts whose email is not verified yet.
+// Configure with UNVERIFIED_RESTRICTIONS as a comma separated list.
+export enum UnverifiedRestriction {
+  CREATE_GROUP = 'create_group',
+  START_CHAT = 'start_chat',
+  SEARCHABLE = 'searchable',
+}
+
+const DEFAULT_RESTRICTIONS = [UnverifiedRestriction.CREATE_GROUP, UnverifiedRestriction.SEARCHABLE].join(',');
+
+const restrictions = new Set(
+  (process.env.UNVERIFIED_RESTRICTIONS ?? DEFAULT_RESTRICTIONS)
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean)
+);
+
+export const isRestrictedForUnverified = (restriction: UnverifiedRestriction): boolean => {
+  return restrictions.has(restriction);
+};
+
+// Users created before verification existed have no flag and count as verified
+export const verifiedEmailFilter = { emailVerified: { $ne: false } };
+
+export const assertEmailVerified = async (
+  userId: string,
+  restriction: UnverifiedRestriction
+): Promise<void> => {
+  if (!isRestrictedForUnverified(restriction)) {
+    return;
+  }
+
+  const user = await User.findById(userId).select('emailVerified');
+
+  if (user && user.emailVerified === false) {
+    throw new AppError('Please verify your email address to perform this action', 403);
+  }
+};
@@ -4,6 +4,14 @@ import { connectDatabase } from './config/database';
 import { connectRedis } from './config/redis';
 import { initializeSocket } from './sockets/socket.handler';
 import logger from './utils/logger';
+import { assertSecureJwtConfig } from './utils/jwt';
+import { promoteBootstrapAdmins } from './modules/admin/admin.service';
+import { startAccountJobs } from './modules/users/account.jobs';
+import { startChatJobs } from './modules/chats/chat.jobs';
+import { migrateGroupAdmins } from './modules/chats/permissions.policy';
+import { backfillChatActivity } from './modules/chats/chatList.service';
+import { backfillSearchTerms } from './modules/users/search.service';
+import { migrateLegacyAvatars } from './utils/avatar';
 
 const PORT = process.env.PORT || 3000;
 
@@ -13,9 +21,27 @@ const httpServer = http.createServer(app);
 // Start server
 const startServer = async () => {
   try {
+    // Refuse to start with insecure token configuration
+    assertSecureJwtConfig();
+
     // Connect to database
     await connectDatabase();
 
+    // Make sure the configured admin accounts have the admin role
+    await promoteBootstrapAdmins();
+
+    // Convert avatars stored as a single URL to the per-size format
+    await migrateLegacyAvatars();
+
+    // Make accounts created before user search existed findable
+    await backfillSearchTerms();
+
+    // Make the single admin of older groups their owner
+    await migrateGroupAdmins();
+
+    // Order chats created before activity tracking in the chat list
+    await backfillChatActivity();
+
     // Connect to Redis (optional)
     await connectRedis();
 
@@ -23,6 +49,12 @@ const startServer = async () => {
     const io = await initializeSocket(httpServer);
     app.set('io', io);
 
+    // Run data exports and scheduled account deletions in the background
+    startAccountJobs(io);
+
+    // Expire unanswered join requests in the background
+    startChatJobs(io);
+
     // Start HTTP server
     httpServer.listen(PORT, () => {
       logger.info(`🚀 Chert API server running on port ${PORT}`);
@@ -2,21 +2,50 @@ import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import { createAdapter } from '@socket.io/redis-adapter';
 import { verifyToken } from '../utils/jwt';
-import { JWTPayload } from '../types';
+import { JWTPayload, PresenceState } from '../types';
 import Chat from '../modules/chats/chat.model';
 import Message from '../modules/messages/message.model';
 import User from '../modules/users/user.model';
 import { MessageStatus, MessageType } from '../types';
 import logger from '../utils/logger';
 import { getRedisClient } from '../config/redis';
+import { isSessionActive } from '../modules/auth/session.service';
+import { canMessageChat, getBlockedRelationIds } from '../modules/users/block.service';
+import { canPostMessages } from '../modules/chats/permissions.policy';
+import { deliverMessage, emitChatRead } from '../modules/messages/delivery.service';
+import { findMentionedUserIds } from '../modules/messages/mentions.service';
+import { fileUrlSchema } from '../modules/messages/messages.validation';
+import { markChatRead, unarchiveOnNewMessage } from '../modules/chats/chatMember.service';
+import {
+  markActive,
+  refreshPresence,
+  sweepPresence,
+  trackConnection,
+  untrackConnection,
+  PRESENCE_MODES,
+} from '../modules/users/presence.service';
+
+const PRESENCE_SWEEP_INTERVAL_MS = 30 * 1000;
+
+// Disconnect every live socket opened with one of the given sessions
+export const disconnectSessionSockets = (io: SocketIOServer, sessionIds: string[]): void => {
+  for (const sessionId of sessionIds) {
+    io.to(`session:${sessionId}`).emit('session_revoked', { sessionId });
+    io.in(`session:${sessionId}`).disconnectSockets(true);
+  }
+};
 
-interface SocketUser {
-  userId: string;
-  socketId: string;
-  username: string;
-}
+// Disconnect every live socket of a user, whatever session it belongs to
+export const disconnectUserSockets = (io: SocketIOServer, userId: string): void => {
+  io.to(`user:${userId}`).emit('session_revoked', {});
+  io.in(`user:${userId}`).disconnectSockets(true);
+};
 
-const connectedUsers = new Map<string, SocketUser[]>();
+// Helper function to get the rooms of users on either side of a block with this user
+const getHiddenUserRooms = async (userId: string): Promise<string[]> => {
+  const userIds = await getBlockedRelationIds(userId);
+  return userIds.map((id) => `user:${id}`);
+};
 
 export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIOServer> => {
   const io = new SocketIOServer(httpServer, {
@@ -77,6 +106,11 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
     logger.info('ℹ️  Socket.IO running without Redis adapter (single-instance mode)');
   }
 
+  const presenceTimer = setInterval(() => {
+    sweepPresence(io).catch((error) => logger.error('Error sweeping presence:', error));
+  }, PRESENCE_SWEEP_INTERVAL_MS);
+  presenceTimer.unref();
+
   // Socket authentication middleware
   io.use(async (socket, next) => {
     try {
@@ -87,6 +121,11 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
       }
 
       const decoded = verifyToken(token) as JWTPayload;
+
+      if (decoded.sid && !(await isSessionActive(decoded.sid))) {
+        return next(new Error('Authentication error: Session has been revoked'));
+      }
+
       socket.data.user = decoded;
       next();
     } catch (error) {
@@ -102,17 +141,13 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
     logger.info(`User connected: ${username} (${userId})`);
 
     // Add user to connected users
-    if (!connectedUsers.has(userId)) {
-      connectedUsers.set(userId, []);
-    }
-    connectedUsers.get(userId)!.push({
-      userId,
-      socketId: socket.id,
-      username,
-    });
+    trackConnection(userId, socket.id);
 
-    // Update user online status
-    await User.findByIdAndUpdate(userId, { isOnline: true });
+    // Track the user and session so revoking access can drop this socket
+    socket.join(`user:${userId}`);
+    if (user.sid) {
+      socket.join(`session:${user.sid}`);
+    }
 
     // Get user's chats and join their rooms
     const chats = await Chat.find({ participants: userId });
@@ -120,14 +155,12 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
       socket.join(`chat:${chat._id}`);
     });
 
-    // Emit online status to all user's chats
-    chats.forEach((chat) => {
-      io.to(`chat:${chat._id}`).emit('user_online', {
-        userId,
-        username,
-        chatId: chat._id,
-      });
-    });
+    // Any event counts as activity
+    socket.onAny(() => markActive(io, userId));
+    markActive(io, userId);
+
+    // Go online, unless invisible
+    await refreshPresence(io, userId);
 
     // Handle join chat
     socket.on('join_chat', async (data: { chatId: string }) => {
@@ -180,6 +213,16 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
           return;
         }
 
+        if (!(await canMessageChat(chat, userId))) {
+          socket.emit('error', { message: 'You cannot interact with this user' });
+          return;
+        }
+
+        if (!canPostMessages(chat, userId)) {
+          socket.emit('error', { message: 'Only channel admins can post in this channel' });
+          return;
+        }
+
         // Validate message
         if (type === MessageType.TEXT && !content) {
           socket.emit('error', { message: 'Content is required for text messages' });
@@ -191,6 +234,11 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
           return;
         }
 
+        if (fileUrl !== undefined && !fileUrlSchema.safeParse(fileUrl).success) {
+          socket.emit('error', { message: 'Invalid file URL' });
+          return;
+        }
+
         // Create message
         const message = await Message.create({
           chatId,
@@ -202,34 +250,23 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
           fileName,
           fileSize,
           replyTo,
+          mentions: await findMentionedUserIds(chat, content),
+          viewCount: chat.isChannel ? 0 : undefined,
         });
 
         // Update chat's last message
         chat.lastMessage = message._id;
+        chat.lastActivityAt = message.createdAt;
         await chat.save();
+        await unarchiveOnNewMessage(chatId, userId);
+        await markChatRead(chatId, userId, [message._id.toString()]);
 
         // Populate message
-        await message.populate('senderId', 'username avatar');
+        await message.populate('senderId', 'username');
         await message.populate('replyTo');
 
-        // Ensure all participants are in the chat room before emitting
-        const chatParticipants = chat.participants.map((p: any) => 
-          p.toString ? p.toString() : p
-        );
-        
-        // Get all connected sockets and add participants to the room
-        const sockets = await io.fetchSockets();
-        for (const socket of sockets) {
-          const socketUser = (socket as any).data?.user as { id?: string } | undefined;
-          if (socketUser?.id && chatParticipants.includes(socketUser.id)) {
-            socket.join(`chat:${chatId}`);
-          }
-        }
-
         // Emit to all participants in the chat
-        io.to(`chat:${chatId}`).emit('new_message', {
-          message,
-        });
+        deliverMessage(io, chat, message);
 
         // Emit confirmation to sender
         socket.emit('message_sent', {
@@ -244,31 +281,50 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
 
     // Handle typing indicator
     socket.on('typing', async (data: { chatId: string }) => {
-      const { chatId } = data;
-
-      // Verify user is participant
-      const chat = await Chat.findOne({
-        _id: chatId,
-        participants: userId,
-      });
+      try {
+        const { chatId } = data;
 
-      if (chat) {
-        socket.to(`chat:${chatId}`).emit('user_typing', {
-          chatId,
-          userId,
-          username,
+        // Verify user is participant
+        const chat = await Chat.findOne({
+          _id: chatId,
+          participants: userId,
         });
+
+        if (chat && canPostMessages(chat, userId)) {
+          const hiddenRooms = await getHiddenUserRooms(userId);
+          socket.to(`chat:${chatId}`).except(hiddenRooms).emit('user_typing', {
+            chatId,
+            userId,
+            username,
+          });
+        }
+      } catch (error) {
+        logger.error('Error sending typing indicator:', error);
       }
     });
 
     // Handle stop typing
-    socket.on('stop_typing', (data: { chatId: string }) => {
-      const { chatId } = data;
-      socket.to(`chat:${chatId}`).emit('user_stop_typing', {
-        chatId,
-        userId,
-        username,
-      });
+    socket.on('stop_typing', async (data: { chatId: string }) => {
+      try {
+        const { chatId } = data;
+
+        // Verify user is participant
+        const chat = await Chat.findOne({
+          _id: chatId,
+          participants: userId,
+        });
+
+        if (chat && canPostMessages(chat, userId)) {
+          const hiddenRooms = await getHiddenUserRooms(userId);
+          socket.to(`chat:${chatId}`).except(hiddenRooms).emit('user_stop_typing', {
+            chatId,
+            userId,
+            username,
+          });
+        }
+      } catch (error) {
+        logger.error('Error sending stop typing indicator:', error);
+      }
     });
 
     // Handle read receipt
@@ -287,41 +343,12 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
           return;
         }
 
-        if (messageIds && messageIds.length > 0) {
-          // Mark specific messages as read
-          await Message.updateMany(
-            {
-              _id: { $in: messageIds },
-              chatId,
-              senderId: { $ne: userId },
-              readBy: { $ne: userId },
-            },
-            {
-              $addToSet: { readBy: userId },
-              $set: { status: MessageStatus.READ },
-            }
-          );
-        } else {
-          // Mark all unread messages in chat as read
-          await Message.updateMany(
-            {
-              chatId,
-              senderId: { $ne: userId },
-              readBy: { $ne: userId },
-            },
-            {
-              $addToSet: { readBy: userId },
-              $set: { status: MessageStatus.READ },
-            }
-          );
-        }
+        // The newest of the given messages, or the whole chat, counts as read
+        const lastReadMessageId = await markChatRead(chatId, userId, messageIds?.length ? messageIds : undefined);
 
-        // Notify other participants
-        socket.to(`chat:${chatId}`).emit('messages_read', {
-          chatId,
-          userId,
-          username,
-        });
+        if (lastReadMessageId) {
+          emitChatRead(io, chat, { userId, username }, lastReadMessageId);
+        }
       } catch (error) {
         logger.error('Error marking messages as read:', error);
         socket.emit('error', { message: 'Failed to mark messages as read' });
@@ -329,46 +356,29 @@ export const initializeSocket = async (httpServer: HTTPServer): Promise<SocketIO
     });
 
     // Handle presence update
-    socket.on('presence_update', (data: { status: string }) => {
-      const { status } = data;
-      // Broadcast presence to all user's chats
-      chats.forEach((chat) => {
-        io.to(`chat:${chat._id}`).emit('user_presence', {
-          userId,
-          username,
-          status,
-          chatId: chat._id,
-        });
-      });
+    socket.on('presence_update', async (data: { state: PresenceState }) => {
+      try {
+        const state = data?.state;
+        if (!PRESENCE_MODES.includes(state as (typeof PRESENCE_MODES)[number])) {
+          socket.emit('error', { message: `Presence state must be one of: ${PRESENCE_MODES.join(', ')}` });
+          return;
+        }
+
+        await User.findByIdAndUpdate(userId, { presenceMode: state });
+        await refreshPresence(io, userId, { announce: true });
+      } catch (error) {
+        logger.error('Error updating presence:', error);
+        socket.emit('error', { message: 'Failed to update presence' });
+      }
     });
 
     // Handle disconnect
     socket.on('disconnect', async () => {
       logger.info(`User disconnected: ${username} (${userId})`);
 
-      // Remove user from connected users
-      const userSockets = connectedUsers.get(userId);
-      if (userSockets) {
-        const filtered = userSockets.filter((u) => u.socketId !== socket.id);
-        if (filtered.length === 0) {
-          connectedUsers.delete(userId);
-          // Update user offline status
-          await User.findByIdAndUpdate(userId, {
-            isOnline: false,
-            lastSeen: new Date(),
-          });
-
-          // Emit offline status to all user's chats
-          chats.forEach((chat) => {
-            io.to(`chat:${chat._id}`).emit('user_offline', {
-              userId,
-              username,
-              chatId: chat._id,
-            });
-          });
-        } else {
-          connectedUsers.set(userId, filtered);
-        }
+      // Remove user from connected users; on their last socket, go offline and tell their chats
+      if (untrackConnection(userId, socket.id)) {
+        await refreshPresence(io, userId);
       }
     });
   });
@@ -1,11 +1,69 @@
 import { Request } from 'express';
 import { JwtPayload } from 'jsonwebtoken';
 
+export enum AuthMethod {
+  JWT = 'jwt',
+  API_KEY = 'api_key',
+}
+
+// Permissions that can be granted to API keys. JWT logins have every scope.
+export enum ApiScope {
+  USERS_READ = 'users:read',
+  USERS_WRITE = 'users:write',
+  CHATS_READ = 'chats:read',
+  CHATS_WRITE = 'chats:write',
+  MESSAGES_READ = 'messages:read',
+  MESSAGES_WRITE = 'messages:write',
+  FILES_WRITE = 'files:write',
+}
+
+export enum UserRole {
+  USER = 'user',
+  MODERATOR = 'moderator',
+  ADMIN = 'admin',
+}
+
+export enum AccountStatus {
+  ACTIVE = 'active',
+  SUSPENDED = 'suspended',
+  BANNED = 'banned',
+  DELETED = 'deleted', // Anonymized after an account deletion request
+}
+
+// Who can see a piece of profile information or add a user to groups
+export enum PrivacyAudience {
+  EVERYONE = 'everyone',
+  CONTACTS = 'contacts',
+  NOBODY = 'nobody',
+}
+
+// Availability shown to other users. INVISIBLE is only ever a user's chosen mode:
+// others see an invisible user as OFFLINE.
+export enum PresenceState {
+  ONLINE = 'online',
+  AWAY = 'away',
+  BUSY = 'busy', // Do not disturb
+  INVISIBLE = 'invisible',
+  OFFLINE = 'offline',
+}
+
+// Square avatar image, resized to a few fixed sizes
+export interface Avatar {
+  small: string; // 64px
+  medium: string; // 256px
+  large: string; // 512px
+  updatedAt?: Date;
+}
+
 export interface AuthRequest extends Request {
   user?: {
     id: string;
     email: string;
     username: string;
+    sessionId?: string;
+    authMethod: AuthMethod;
+    scopes: ApiScope[];
+    role?: UserRole; // Loaded by requireRole
   };
 }
 
@@ -13,6 +71,8 @@ export interface JWTPayload extends JwtPayload {
   id: string;
   email: string;
   username: string;
+  sid?: string;
+  purpose?: string;
 }
 
 export interface SocketUser {
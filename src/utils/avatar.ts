@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import mongoose, { Schema } from 'mongoose';
+import sharp from 'sharp';
+import { uploadDir } from './upload';
+import { AppError } from './errors';
+import logger from './logger';
+import { Avatar } from '../types';
+
+export const AVATAR_SIZES = {
+  small: 64,
+  medium: 256,
+  large: 512,
+} as const;
+
+type AvatarSize = keyof typeof AVATAR_SIZES;
+
+const AVATAR_URL_PREFIX = '/uploads/avatar-';
+const MAX_INPUT_PIXELS = 40_000_000; // Refuse decompression bombs before resizing
+
+export const avatarSchema = new Schema<Avatar>(
+  {
+    small: { type: String, required: true },
+    medium: { type: String, required: true },
+    large: { type: String, required: true },
+    updatedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
+// Crop an uploaded image to a centred square and write every avatar size as WebP.
+// Orientation is applied first, then all metadata (EXIF, GPS, ICC) is dropped.
+export const processAvatar = async (input: Buffer): Promise<Avatar> => {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    throw new AppError('Avatar must be a valid image', 400);
+  }
+
+  if (!metadata.width || !metadata.height) {
+    throw new AppError('Avatar must be a valid image', 400);
+  }
+
+  const baseName = `avatar-${Date.now()}-${crypto.randomBytes(6).toString('hex')}`;
+  const written: string[] = [];
+  const avatar: Partial<Avatar> = {};
+
+  try {
+    for (const [size, pixels] of Object.entries(AVATAR_SIZES) as [AvatarSize, number][]) {
+      const filename = `${baseName}-${pixels}.webp`;
+      await sharp(input, { limitInputPixels: MAX_INPUT_PIXELS })
+        .rotate()
+        .resize(pixels, pixels, { fit: 'cover', position: 'centre' })
+        .webp({ quality: 85 })
+        .toFile(path.resolve(uploadDir, filename));
+
+      written.push(filename);
+      avatar[size] = `/uploads/${filename}`;
+    }
+  } catch (error) {
+    await Promise.all(written.map((filename) => fs.promises.rm(path.resolve(uploadDir, filename), { force: true })));
+    logger.error('Failed to process avatar:', error);
+    throw new AppError('Avatar image could not be processed', 400);
+  }
+
+  return { ...(avatar as Avatar), updatedAt: new Date() };
+};
+
+// Filenames of the resized variants of an avatar. External URLs are not ours to delete.
+export const avatarFilenames = (avatar?: Partial<Avatar> | null): string[] => {
+  if (!avatar) {
+    return [];
+  }
+
+  return (Object.keys(AVATAR_SIZES) as AvatarSize[])
+    .map((size) => avatar[size])
+    .filter((url): url is string => !!url && url.startsWith(AVATAR_URL_PREFIX))
+    .map((url) => url.substring('/uploads/'.length))
+    .filter((filename) => filename === path.basename(filename));
+};
+
+export const removeAvatarFiles = async (avatar?: Partial<Avatar> | null): Promise<void> => {
+  for (const filename of avatarFilenames(avatar)) {
+    try {
+      await fs.promises.rm(path.resolve(uploadDir, filename), { force: true });
+    } catch (error) {
+      logger.warn(`Failed to delete avatar file ${filename}:`, error);
+    }
+  }
+};
+
+// Avatars used to be a single URL string. Turn those into the structured form, using
+// the same URL for every size, so old documents keep working.
+export const migrateLegacyAvatars = async (): Promise<void> => {
+  for (const collection of ['users', 'chats']) {
+    const target = mongoose.connection.collection(collection);
+
+    await target.updateMany({ avatar: '' }, { $unset: { avatar: 1 } });
+    const result = await target.updateMany({ avatar: { $type: 'string' } }, [
+      { $set: { avatar: { small: '$avatar', medium: '$avatar', large: '$avatar' } } },
+    ]);
+
+    if (result.modifiedCount > 0) {
+      logger.info(`Converted ${result.modifiedCount} legacy avatar URL(s) in ${collection}`);
+    }
+  }
+};
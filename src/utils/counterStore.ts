@@ -0,0 +1,117 @@
+import { getRedisClient } from '../config/redis';
+
+// Expiring counters used for throttling (login attempts, OTP sends, ...).
+// Backed by Redis when it is connected so limits hold across instances,
+// otherwise by process memory.
+export interface CounterStore {
+  increment(key: string, ttlSeconds: number): Promise<number>;
+  get(key: string): Promise<number>;
+  set(key: string, value: number, ttlSeconds: number): Promise<void>;
+  ttl(key: string): Promise<number>;
+  reset(key: string): Promise<void>;
+}
+
+interface MemoryEntry {
+  value: number;
+  expiresAt: number;
+}
+
+export class MemoryCounterStore implements CounterStore {
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor() {
+    // Periodically drop expired entries so the map does not grow forever
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, entry] of this.entries) {
+        if (entry.expiresAt <= now) {
+          this.entries.delete(key);
+        }
+      }
+    }, 60 * 1000).unref();
+  }
+
+  private getEntry(key: string): MemoryEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const entry = this.getEntry(key);
+    if (entry) {
+      entry.value += 1;
+      return entry.value;
+    }
+    this.entries.set(key, { value: 1, expiresAt: Date.now() + ttlSeconds * 1000 });
+    return 1;
+  }
+
+  async get(key: string): Promise<number> {
+    return this.getEntry(key)?.value || 0;
+  }
+
+  async set(key: string, value: number, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async ttl(key: string): Promise<number> {
+    const entry = this.getEntry(key);
+    return entry ? Math.ceil((entry.expiresAt - Date.now()) / 1000) : 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+type RedisClient = NonNullable<ReturnType<typeof getRedisClient>>;
+
+export class RedisCounterStore implements CounterStore {
+  constructor(private client: RedisClient, private prefix: string = 'chert:counter:') {}
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const redisKey = this.prefix + key;
+    const value = await this.client.incr(redisKey);
+    // Start the window on the first hit only
+    if (value === 1) {
+      await this.client.expire(redisKey, ttlSeconds);
+    }
+    return value;
+  }
+
+  async get(key: string): Promise<number> {
+    const value = await this.client.get(this.prefix + key);
+    return value ? parseInt(value, 10) : 0;
+  }
+
+  async set(key: string, value: number, ttlSeconds: number): Promise<void> {
+    await this.client.set(this.prefix + key, value.toString(), { EX: ttlSeconds });
+  }
+
+  async ttl(key: string): Promise<number> {
+    const ttl = await this.client.ttl(this.prefix + key);
+    return ttl > 0 ? ttl : 0;
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
+
+let memoryStore: MemoryCounterStore | null = null;
+
+export const getCounterStore = (): CounterStore => {
+  const redisClient = getRedisClient();
+  if (redisClient?.isReady) {
+    return new RedisCounterStore(redisClient);
+  }
+
+  if (!memoryStore) {
+    memoryStore = new MemoryCounterStore();
+  }
+  return memoryStore;
+};
@@ -10,7 +10,25 @@ export class AppError extends Error {
   }
 }
 
+export class AccountLockedError extends AppError {
+  retryAfter: number; // seconds
+
+  constructor(retryAfter: number, message: string = 'Too many failed login attempts. Please try again later.') {
+    super(message, 429);
+    this.retryAfter = retryAfter;
+  }
+}
+
 export const errorHandler = (err: Error, _req: any, res: any, _next: any) => {
+  if (err instanceof AccountLockedError) {
+    res.setHeader('Retry-After', err.retryAfter.toString());
+    return res.status(err.statusCode).json({
+      success: false,
+      message: err.message,
+      retryAfter: err.retryAfter,
+    });
+  }
+
   if (err instanceof AppError) {
     return res.status(err.statusCode).json({
       success: false,
@@ -24,4 +42,3 @@ export const errorHandler = (err: Error, _req: any, res: any, _next: any) => {
     ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
   });
 };
-
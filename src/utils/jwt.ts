@@ -1,28 +1,115 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { JWTPayload } from '../types';
+import { getSigningKey, getVerificationKey, hasAsymmetricKeys } from '../config/jwtKeys';
 
-const JWT_SECRET: string = process.env.JWT_SECRET || 'your-secret-key';
-const JWT_REFRESH_SECRET: string = process.env.JWT_REFRESH_SECRET || 'your-refresh-secret-key';
+const DEFAULT_JWT_SECRET = 'your-secret-key';
+const DEFAULT_JWT_REFRESH_SECRET = 'your-refresh-secret-key';
+
+const JWT_SECRET: string = process.env.JWT_SECRET || DEFAULT_JWT_SECRET;
+const JWT_REFRESH_SECRET: string = process.env.JWT_REFRESH_SECRET || DEFAULT_JWT_REFRESH_SECRET;
 const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || '7d';
 const JWT_REFRESH_EXPIRES_IN: string = process.env.JWT_REFRESH_EXPIRES_IN || '30d';
+const MFA_TOKEN_EXPIRES_IN = '5m';
+const MFA_TOKEN_PURPOSE = 'mfa_pending';
+
+type TokenClaims = { id: string; email: string; username: string; sid?: string };
+
+// Refuse to run in production with the built-in development secrets
+export const assertSecureJwtConfig = (): void => {
+  if (process.env.NODE_ENV !== 'production') {
+    return;
+  }
+
+  if (JWT_REFRESH_SECRET === DEFAULT_JWT_REFRESH_SECRET) {
+    throw new Error('JWT_REFRESH_SECRET must be set in production');
+  }
+
+  if (!hasAsymmetricKeys() && JWT_SECRET === DEFAULT_JWT_SECRET) {
+    throw new Error('Configure JWT signing keys (JWT_KEYS_DIR or JWT_PRIVATE_KEY) or JWT_SECRET in production');
+  }
+};
+
+// Access tokens are signed with the active asymmetric key (with a kid header) when
+// keys are configured, so other services can verify them through the JWKS endpoint.
+// Without keys they fall back to HS256 with JWT_SECRET.
+export const generateToken = (payload: TokenClaims): string => {
+  const signingKey = getSigningKey();
+
+  if (signingKey) {
+    return jwt.sign(payload, signingKey.privateKey, {
+      algorithm: signingKey.algorithm,
+      keyid: signingKey.kid,
+      expiresIn: JWT_EXPIRES_IN,
+    } as jwt.SignOptions);
+  }
 
-export const generateToken = (payload: { id: string; email: string; username: string }): string => {
   return jwt.sign(payload, JWT_SECRET, {
     expiresIn: JWT_EXPIRES_IN,
   } as jwt.SignOptions);
 };
 
-export const generateRefreshToken = (payload: { id: string; email: string; username: string }): string => {
+export const generateRefreshToken = (payload: TokenClaims & { sid: string }): string => {
   return jwt.sign(payload, JWT_REFRESH_SECRET, {
     expiresIn: JWT_REFRESH_EXPIRES_IN,
+    // Unique per token so two refreshes within the same second never collide
+    jwtid: crypto.randomUUID(),
   } as jwt.SignOptions);
 };
 
 export const verifyToken = (token: string): JWTPayload => {
-  return jwt.verify(token, JWT_SECRET) as JWTPayload;
+  const decoded = jwt.decode(token, { complete: true });
+  const kid = decoded?.header.kid;
+
+  let payload: JWTPayload;
+  if (kid) {
+    const key = getVerificationKey(kid);
+    if (!key) {
+      throw new jwt.JsonWebTokenError('unknown key id');
+    }
+    payload = jwt.verify(token, key.publicKey, { algorithms: [key.algorithm] }) as JWTPayload;
+  } else {
+    // HS256 tokens are accepted while no keys are configured, or while an explicit
+    // JWT_SECRET is still set during a migration to asymmetric keys
+    if (hasAsymmetricKeys() && JWT_SECRET === DEFAULT_JWT_SECRET) {
+      throw new jwt.JsonWebTokenError('missing key id');
+    }
+    payload = jwt.verify(token, JWT_SECRET, { algorithms: ['HS256'] }) as JWTPayload;
+  }
+
+  // Purpose-bound tokens (e.g. pending 2FA) must never be accepted as access tokens
+  if (payload.purpose) {
+    throw new jwt.JsonWebTokenError('invalid token purpose');
+  }
+  return payload;
 };
 
 export const verifyRefreshToken = (token: string): JWTPayload => {
-  return jwt.verify(token, JWT_REFRESH_SECRET) as JWTPayload;
+  const decoded = jwt.verify(token, JWT_REFRESH_SECRET, { algorithms: ['HS256'] }) as JWTPayload;
+  if (decoded.purpose) {
+    throw new jwt.JsonWebTokenError('invalid token purpose');
+  }
+  return decoded;
+};
+
+// Short-lived token proving the password step of a two-factor login succeeded.
+// Signed with the internal secret so it is never verifiable as an access token.
+export const generateMfaToken = (userId: string): string => {
+  return jwt.sign({ id: userId, purpose: MFA_TOKEN_PURPOSE }, JWT_REFRESH_SECRET, {
+    expiresIn: MFA_TOKEN_EXPIRES_IN,
+  } as jwt.SignOptions);
+};
+
+export const verifyMfaToken = (token: string): JWTPayload => {
+  const decoded = jwt.verify(token, JWT_REFRESH_SECRET, { algorithms: ['HS256'] }) as JWTPayload;
+  if (decoded.purpose !== MFA_TOKEN_PURPOSE) {
+    throw new jwt.JsonWebTokenError('invalid token purpose');
+  }
+  return decoded;
 };
 
+// Expiry of an already signed token, used to persist alongside server-side state
+export const getTokenExpiry = (token: string): Date => {
+  const decoded = jwt.decode(token) as JWTPayload | null;
+  return new Date((decoded?.exp || 0) * 1000);
+};
@@ -0,0 +1,86 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import logger from './logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Chert <no-reply@chert.local>';
+
+export class SmtpMailTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? {
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASSWORD,
+        }
+      : undefined,
+  });
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+// Writes every email to a JSON file, handy for local development and tests
+export class FileMailTransport implements MailTransport {
+  constructor(private outputDir: string = process.env.MAIL_OUTPUT_DIR || './mail-outbox') {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    const fileName = `${Date.now()}-${Math.round(Math.random() * 1e9)}.json`;
+    const filePath = path.join(this.outputDir, fileName);
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ from: MAIL_FROM, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+    logger.info(`📧 Email to ${message.to} written to ${filePath}`);
+  }
+}
+
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    logger.info(`📧 Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+let mailTransport: MailTransport | null = null;
+
+const createMailTransport = (): MailTransport => {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      return new SmtpMailTransport();
+    case 'file':
+      return new FileMailTransport();
+    default:
+      return new ConsoleMailTransport();
+  }
+};
+
+export const getMailTransport = (): MailTransport => {
+  if (!mailTransport) {
+    mailTransport = createMailTransport();
+  }
+  return mailTransport;
+};
+
+// Allows swapping the transport (e.g. in tests or when embedding the app)
+export const setMailTransport = (transport: MailTransport): void => {
+  mailTransport = transport;
+};
+
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send(message);
+};
@@ -0,0 +1,2 @@
+// Escape user input before using it in a regex query
+export const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
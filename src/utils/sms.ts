@@ -0,0 +1,61 @@
+import fs from 'fs';
+import path from 'path';
+import logger from './logger';
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsTransport {
+  send(message: SmsMessage): Promise<void>;
+}
+
+// Writes every SMS to a JSON file, handy for local development and tests
+export class FileSmsTransport implements SmsTransport {
+  constructor(private outputDir: string = process.env.SMS_OUTPUT_DIR || './sms-outbox') {}
+
+  async send(message: SmsMessage): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+    const fileName = `${Date.now()}-${Math.round(Math.random() * 1e9)}.json`;
+    const filePath = path.join(this.outputDir, fileName);
+    await fs.promises.writeFile(
+      filePath,
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+    logger.info(`📱 SMS to ${message.to} written to ${filePath}`);
+  }
+}
+
+export class ConsoleSmsTransport implements SmsTransport {
+  async send(message: SmsMessage): Promise<void> {
+    logger.info(`📱 SMS to ${message.to}: ${message.body}`);
+  }
+}
+
+let smsTransport: SmsTransport | null = null;
+
+const createSmsTransport = (): SmsTransport => {
+  switch (process.env.SMS_TRANSPORT) {
+    case 'file':
+      return new FileSmsTransport();
+    default:
+      return new ConsoleSmsTransport();
+  }
+};
+
+export const getSmsTransport = (): SmsTransport => {
+  if (!smsTransport) {
+    smsTransport = createSmsTransport();
+  }
+  return smsTransport;
+};
+
+// Plug in a real provider (Twilio, Vonage, ...) by implementing SmsTransport
+export const setSmsTransport = (transport: SmsTransport): void => {
+  smsTransport = transport;
+};
+
+export const sendSms = async (message: SmsMessage): Promise<void> => {
+  await getSmsTransport().send(message);
+};
@@ -0,0 +1,11 @@
+import crypto from 'crypto';
+
+// Generate a URL-safe random token (used for refresh tokens, reset links, API keys, etc.)
+export const generateRandomToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+// Hash a token before storing it so a database leak does not expose usable tokens
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
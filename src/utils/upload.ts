@@ -1,9 +1,11 @@
+import { Request, RequestHandler, Response, NextFunction } from 'express';
 import multer from 'multer';
 import fs from 'fs';
 import { AppError } from './errors';
 
-const uploadDir = process.env.UPLOAD_DIR || './uploads';
+export const uploadDir = process.env.UPLOAD_DIR || './uploads';
 const maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '10485760', 10); // 10MB default
+const maxAvatarSize = parseInt(process.env.MAX_AVATAR_SIZE || '5242880', 10); // 5MB default
 
 // Ensure upload directory exists
 if (!fs.existsSync(uploadDir)) {
@@ -53,3 +55,31 @@ export const upload = multer({
 export const uploadSingle: any = upload.single('file');
 export const uploadMultiple: any = upload.array('files', 10);
 
+
+const avatarMimes = ['image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'];
+
+// Avatars stay in memory, only the resized variants are written to disk. multer's types are
+// built against a different copy of @types/express, hence the cast.
+const avatarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: maxAvatarSize,
+    files: 1,
+  },
+  fileFilter: (_req, file, cb) => {
+    if (avatarMimes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new AppError('Invalid file type. Avatars must be JPEG, PNG, GIF or WebP images.', 400));
+    }
+  },
+}).single('avatar') as unknown as RequestHandler;
+
+export const uploadAvatar = (req: Request, res: Response, next: NextFunction): void => {
+  avatarUpload(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError) {
+      return next(new AppError(err.code === 'LIMIT_FILE_SIZE' ? 'Avatar image is too large' : err.message, 400));
+    }
+    next(err);
+  });
+};